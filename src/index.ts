@@ -1,11 +1,23 @@
 import axios, {
-	type AxiosError,
+	type AxiosAdapter,
+	AxiosError,
+	AxiosHeaders,
 	type AxiosInstance,
 	type AxiosRequestConfig,
 	type AxiosResponse,
+	CanceledError,
+	type InternalAxiosRequestConfig,
 	isCancel,
 } from 'axios';
 
+/**
+ * Matches HTTP response status codes: a single code like 429, a [min, max]
+ * range like [500, 599], or a string with a single code like '429' or a class
+ * of codes like '5xx'. Strings starting with '!', like '!501', exclude the
+ * codes they match.
+ */
+export type StatusCodeMatcher = number | number[] | string;
+
 /**
  * Configuration for the Axios `request` method.
  */
@@ -27,10 +39,15 @@ export interface RetryConfig {
 	retriesRemaining?: number;
 
 	/**
-	 * The delay in milliseconds used for retry backoff. Defaults to 100.
+	 * The delay in milliseconds used for retry backoff. Defaults to 100, or
+	 * 1000 for 'linear' backoff.
 	 * - For 'static' backoff: Fixed delay between retries
 	 * - For 'exponential' backoff: Base multiplier for exponential calculation
-	 * - For 'linear' backoff: Ignored (uses attempt * 1000)
+	 * - For 'linear' backoff: Multiplied by the attempt number
+	 * - For 'decorrelated-jitter' backoff: Minimum delay between retries
+	 * - For 'fibonacci' backoff: Multiplied by the fibonacci number of the attempt
+	 * - For 'polynomial' backoff: Multiplied by the attempt number raised to
+	 *   `backoffExponent`
 	 */
 	retryDelay?: number;
 
@@ -41,10 +58,30 @@ export interface RetryConfig {
 	httpMethodsToRetry?: string[];
 
 	/**
-	 * The HTTP response status codes that will automatically be retried.
-	 * Defaults to: [[100, 199], [429, 429], [500, 599]]
+	 * The HTTP response status codes that will automatically be retried, as
+	 * single codes, [min, max] ranges, classes like '5xx', or exclusions like
+	 * '!501'. Defaults to: [[100, 199], [429, 429], [500, 599]]
+	 */
+	statusCodesToRetry?: StatusCodeMatcher[];
+
+	/**
+	 * HTTP response status codes that will never be retried, even if they're
+	 * matched by `statusCodesToRetry`. Defaults to [].
+	 */
+	statusCodesToNotRetry?: StatusCodeMatcher[];
+
+	/**
+	 * The error codes of errors without a response (network errors, timeouts,
+	 * etc.) that will automatically be retried. Defaults to:
+	 * ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK']
+	 */
+	errorCodesToRetry?: string[];
+
+	/**
+	 * Error codes that will never be retried, even if they're listed in
+	 * `errorCodesToRetry`. Defaults to [].
 	 */
-	statusCodesToRetry?: number[][];
+	errorCodesToNotRetry?: string[];
 
 	/**
 	 * Function to invoke when error occurred.
@@ -67,9 +104,35 @@ export interface RetryConfig {
 	shouldRetry?: (error: AxiosError) => boolean;
 
 	/**
-	 * Backoff Type; 'linear', 'static' or 'exponential'.
+	 * Function to invoke which determines if a successful response should be
+	 * retried, for example when the body says the result is still processing.
+	 * Return true to retry the request with the usual backoff. The response is
+	 * passed through the retry logic as an `AxiosError` with the code
+	 * 'ERR_RETRYABLE_RESPONSE', which skips the `statusCodesToRetry` check.
+	 * When retries run out, the last response is returned.
+	 */
+	shouldRetryResponse?: (response: AxiosResponse) => boolean;
+
+	/**
+	 * Backoff Type; 'linear', 'static', 'exponential', 'decorrelated-jitter',
+	 * 'fibonacci', 'polynomial', or a function which calculates the delay.
+	 */
+	backoffType?: BackoffType | BackoffStrategy;
+
+	/**
+	 * The exponent used by 'polynomial' backoff. Defaults to 2.
+	 */
+	backoffExponent?: number;
+
+	/**
+	 * The delay in milliseconds that was used before the most recent retry.
+	 */
+	lastDelay?: number;
+
+	/**
+	 * The total time in milliseconds spent waiting between retries.
 	 */
-	backoffType?: 'linear' | 'static' | 'exponential';
+	totalDelay?: number;
 
 	/**
 	 * Jitter strategy for exponential backoff. Defaults to 'none'.
@@ -88,293 +151,3530 @@ export interface RetryConfig {
 	checkRetryAfter?: boolean;
 
 	/**
-	 * Max permitted Retry-After value (in ms) - rejects if greater. Defaults to 5 mins.
+	 * Max permitted Retry-After value (in ms). What happens when the value is
+	 * greater depends on `retryAfterMode`. Defaults to 5 mins.
 	 */
 	maxRetryAfter?: number;
 
+	/**
+	 * What to do when Retry-After is greater than `maxRetryAfter`. Defaults to
+	 * 'reject'.
+	 * - 'reject': Stop retrying, and reject with the error
+	 * - 'clamp': Retry after `maxRetryAfter`
+	 * - 'ignore': Ignore the header, and retry after the usual backoff delay
+	 */
+	retryAfterMode?: 'reject' | 'clamp' | 'ignore';
+
+	/**
+	 * Measure Retry-After HTTP dates against the response's `Date` header
+	 * instead of the local clock, to correct for clock skew between the client
+	 * and the server. Defaults to false.
+	 */
+	useResponseDate?: boolean;
+
 	/**
 	 * Ceiling for calculated delay (in ms) - delay will not exceed this value.
 	 */
 	maxRetryDelay?: number;
 
+	/**
+	 * Overall deadline (in ms) for the request, including every retry and
+	 * backoff delay. Retries that would start after the deadline are not made,
+	 * and the request is rejected with an `AxiosError` whose code is
+	 * 'ERR_DEADLINE_EXCEEDED'. The Axios `timeout` of each attempt is shrunk to
+	 * the time left before the deadline.
+	 */
+	totalTimeout?: number;
+
+	/**
+	 * Send another copy of the request if no response has arrived within this
+	 * many ms, for the methods in `httpMethodsToRetry`. The first successful
+	 * response wins, and the other copies are aborted. Disabled by default.
+	 */
+	hedgeDelay?: number;
+
+	/**
+	 * The most extra copies of a request sent by hedging. Defaults to 1.
+	 */
+	maxHedges?: number;
+
+	/**
+	 * What to do with a request body that can only be read once, like a stream.
+	 * Defaults to 'skip'.
+	 * - 'skip': Don't retry the request, and reject with the error
+	 * - 'buffer': Read the body into memory before the first attempt, so it can
+	 *   be sent again. Bodies larger than `maxBufferSize`, and legacy streams
+	 *   without `read`, like `form-data` bodies, are sent as they are, and not
+	 *   retried.
+	 */
+	nonReplayableBody?: 'skip' | 'buffer';
+
+	/**
+	 * Largest body (in bytes) buffered when `nonReplayableBody` is 'buffer'.
+	 * Defaults to 1 MiB.
+	 */
+	maxBufferSize?: number;
+
+	/**
+	 * Function which builds the request body for each attempt, so bodies that
+	 * can only be read once can still be retried. Its result replaces `data`.
+	 */
+	bodyFactory?: (config: AxiosRequestConfig) => unknown;
+
+	/**
+	 * Priority of the retries of the request when `maxConcurrentRetries` is
+	 * passed to `attach`. Queued retries with a higher priority are sent first,
+	 * and retries with the same priority in the order they were queued.
+	 * Defaults to 0.
+	 */
+	retryPriority?: number;
+
+	/**
+	 * Function which returns the current time (in ms since the epoch), used to
+	 * read Retry-After dates, enforce `totalTimeout` and record attempt times.
+	 * Defaults to `Date.now`.
+	 */
+	clock?: () => number;
+
+	/**
+	 * Function which returns a random number from 0 (inclusive) to 1
+	 * (exclusive), used for jitter. Defaults to `Math.random`.
+	 */
+	random?: () => number;
+
+	/**
+	 * Function which waits out a delay (in ms) before a retry, a rate limited
+	 * request or a hedged copy of a request. The signal is aborted when the wait
+	 * is no longer needed, for example because the request was canceled.
+	 * Defaults to a `setTimeout` based wait.
+	 */
+	sleep?: (delay: number, signal: AbortSignal) => Promise<void>;
+
+	/**
+	 * The time (in ms since the epoch) at which the first attempt was made.
+	 * Populated automatically.
+	 */
+	startTime?: number;
+
+	/**
+	 * Send an idempotency key header with POST and PATCH requests, so they can
+	 * be retried safely. The key is generated on the first attempt and reused on
+	 * every retry. Pass a function to generate the key yourself. When enabled,
+	 * POST and PATCH requests are retried if they carry a key, even when they
+	 * are not listed in `httpMethodsToRetry`. Defaults to false.
+	 */
+	useIdempotencyKey?: boolean | ((config: AxiosRequestConfig) => string);
+
+	/**
+	 * The name of the idempotency key header. Defaults to 'Idempotency-Key'.
+	 */
+	idempotencyKeyHeader?: string;
+
+	/**
+	 * The idempotency key sent with the request.
+	 * Populated automatically when `useIdempotencyKey` is enabled.
+	 */
+	idempotencyKey?: string;
+
+	/**
+	 * The name of the `rules` entry passed to `attach` that matched the request.
+	 * Populated automatically when a rule matches.
+	 */
+	ruleName?: string;
+
 	/**
 	 * Array of all errors encountered during retry attempts.
 	 * Populated automatically when retries are performed.
 	 * The first element is the initial error, subsequent elements are retry errors.
 	 */
 	errors?: AxiosError[];
+
+	/**
+	 * Details of each attempt made so far, including the first.
+	 * Populated automatically.
+	 */
+	attemptHistory?: RetryAttempt[];
 }
 
-export type RaxConfig = {
-	raxConfig: RetryConfig;
-} & AxiosRequestConfig;
+/**
+ * Details of a single attempt of a request.
+ */
+export interface RetryAttempt {
+	/**
+	 * The time (in ms since the epoch) at which the attempt was sent.
+	 */
+	startTime: number;
 
-// If this wasn't in the list of status codes where we want to automatically retry, return.
-const retryRanges = [
-	// https://en.wikipedia.org/wiki/List_of_HTTP_status_codes
-	// 1xx - Retry (Informational, request still processing)
-	// 2xx - Do not retry (Success)
-	// 3xx - Do not retry (Redirect)
-	// 4xx - Do not retry (Client errors)
-	// 429 - Retry ("Too Many Requests")
-	// 5xx - Retry (Server errors)
-	[100, 199],
-	[429, 429],
-	[500, 599],
-];
+	/**
+	 * The delay (in ms) waited before the attempt. Zero for the first attempt.
+	 */
+	delay: number;
+
+	/**
+	 * The status code of the response, if one arrived.
+	 */
+	status?: number;
+
+	/**
+	 * The error code, for attempts that failed without a response.
+	 */
+	code?: string;
+
+	/**
+	 * Whether the attempt failed while the device was offline. These attempts
+	 * are sent again without counting as a retry.
+	 */
+	offline?: boolean;
+}
 
 /**
- * Attach the interceptor to the Axios instance.
- * @param instance The optional Axios instance on which to attach the
- * interceptor.
- * @returns The id of the interceptor attached to the axios instance.
+ * Summary of the attempts made to get a response.
  */
-export function attach(instance?: AxiosInstance) {
-	const inst = instance || axios;
-	return inst.interceptors.response.use(
-		onFulfilled,
-		async (error: AxiosError) => onError(inst, error),
-	);
+export interface RetryInfo {
+	/**
+	 * The number of attempts made, including the first.
+	 */
+	attempts: number;
+
+	/**
+	 * The number of retries made. Attempts sent again after failing while the
+	 * device was offline aren't counted.
+	 */
+	retries: number;
+
+	/**
+	 * Details of each attempt, in the order they were made.
+	 */
+	history: RetryAttempt[];
+
+	/**
+	 * The total time (in ms) spent waiting between attempts.
+	 */
+	totalDelay: number;
 }
 
 /**
- * Eject the Axios interceptor that is providing retry capabilities.
- * @param interceptorId The interceptorId provided in the config.
- * @param instance The axios instance using this interceptor.
+ * The built in backoff strategies.
  */
-export function detach(interceptorId: number, instance?: AxiosInstance) {
-	const inst = instance || axios;
-	inst.interceptors.response.eject(interceptorId);
-}
+export type BackoffType =
+	| 'linear'
+	| 'static'
+	| 'exponential'
+	| 'decorrelated-jitter'
+	| 'fibonacci'
+	| 'polynomial';
 
-function onFulfilled(result: AxiosResponse) {
-	return result;
+/**
+ * Function which calculates the delay (in ms) before a retry.
+ * @param attempt The retry that is about to be made, starting at 1.
+ * @param error The error that triggered the retry.
+ * @param config The retry config for the request.
+ */
+export type BackoffStrategy = (
+	attempt: number,
+	error: AxiosError,
+	config: RetryConfig,
+) => number;
+
+export type RaxConfig = {
+	raxConfig: RetryConfig;
+} & AxiosRequestConfig;
+
+/**
+ * Static backoff: wait `retryDelay` between every retry.
+ */
+export function staticBackoff(
+	_attempt: number,
+	_error: AxiosError,
+	config: RetryConfig,
+) {
+	return config.retryDelay ?? 100;
 }
 
 /**
- * Some versions of axios are converting arrays into objects during retries.
- * This will attempt to convert an object with the following structure into
- * an array, where the keys correspond to the indices:
- * {
- *   0: {
- *     // some property
- *   },
- *   1: {
- *     // another
- *   }
- * }
- * @param obj The object that (may) have integers that correspond to an index
- * @returns An array with the pucked values
+ * Linear backoff: `attempt * retryDelay`.
  */
-function normalizeArray<T>(object?: T[]): T[] | undefined {
-	const array: T[] = [];
-	if (!object) {
-		return undefined;
-	}
+export function linearBackoff(
+	attempt: number,
+	_error: AxiosError,
+	config: RetryConfig,
+) {
+	// The delay between the first (actual) attempt and the first retry should
+	// be non-zero. Rely on the convention that `attempt` is equal to 1 for the
+	// first retry (was once 0, which was a bug -- see #122).
+	return attempt * (config.retryDelay ?? 1000);
+}
 
-	if (Array.isArray(object)) {
-		return object;
+/**
+ * Exponential backoff: `((2^attempt - 1) / 2) * retryDelay`, with the
+ * configured `jitter` applied.
+ */
+export function exponentialBackoff(
+	attempt: number,
+	_error: AxiosError,
+	config: RetryConfig,
+) {
+	const delay = ((2 ** attempt - 1) / 2) * (config.retryDelay ?? 100);
+	const jitter = config.jitter || 'none';
+	if (jitter === 'full') {
+		// Full jitter: random delay between 0 and calculated delay
+		return getRandom(config) * delay;
 	}
 
-	if (typeof object === 'object') {
-		for (const key of Object.keys(object)) {
-			const number_ = Number.parseInt(key, 10);
-			if (!Number.isNaN(number_)) {
-				array[number_] = object[key];
-			}
-		}
+	if (jitter === 'equal') {
+		// Equal jitter: half fixed, half random
+		return delay / 2 + getRandom(config) * (delay / 2);
 	}
 
-	return array;
+	// 'none' or any other value: no jitter applied
+	return delay;
 }
 
-function setConfigMetadata(config: RetryConfig, errors: AxiosError[]) {
-	config.errors = errors;
-	Object.defineProperty(config, 'toJSON', {
-		value(this: RetryConfig) {
-			const { errors: _errors, ...serializedConfig } = this;
-			return serializedConfig;
-		},
-		writable: true,
-		configurable: true,
-		enumerable: false,
-	});
+/**
+ * Decorrelated jitter backoff: a random delay between `retryDelay` and three
+ * times the previous delay.
+ * https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export function decorrelatedJitterBackoff(
+	_attempt: number,
+	_error: AxiosError,
+	config: RetryConfig,
+) {
+	const baseDelay = config.retryDelay ?? 100;
+	const previousDelay = Math.max(config.lastDelay ?? baseDelay, baseDelay);
+	return baseDelay + getRandom(config) * (previousDelay * 3 - baseDelay);
 }
 
 /**
- * Parse the Retry-After header.
- * https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
- * @param header Retry-After header value
- * @returns Number of milliseconds, or undefined if invalid
+ * Fibonacci backoff: `fib(attempt) * retryDelay`, so 1, 1, 2, 3, 5, 8... times
+ * `retryDelay`.
  */
-function parseRetryAfter(header: string): number | undefined {
-	// Header value may be string containing integer seconds
-	const value = Number(header);
-	if (!Number.isNaN(value)) {
-		return value * 1000;
+export function fibonacciBackoff(
+	attempt: number,
+	_error: AxiosError,
+	config: RetryConfig,
+) {
+	let [previous, current] = [0, 1];
+	for (let i = 1; i < attempt; i++) {
+		[previous, current] = [current, previous + current];
 	}
 
-	// Or HTTP date time string
-	const dateTime = Date.parse(header);
-	if (!Number.isNaN(dateTime)) {
-		return dateTime - Date.now();
-	}
+	return current * (config.retryDelay ?? 100);
+}
 
-	return undefined;
+/**
+ * Polynomial backoff: `attempt^backoffExponent * retryDelay`.
+ */
+export function polynomialBackoff(
+	attempt: number,
+	_error: AxiosError,
+	config: RetryConfig,
+) {
+	return attempt ** (config.backoffExponent ?? 2) * (config.retryDelay ?? 100);
 }
 
-async function onError(instance: AxiosInstance, error: AxiosError) {
-	if (isCancel(error)) {
-		throw error;
-	}
+/**
+ * Get a random number from the random source of a retry config.
+ * @param config The retry config.
+ */
+function getRandom(config: RetryConfig | undefined) {
+	return config?.random ? config.random() : Math.random();
+}
 
-	const config = getConfig(error) || {};
-	config.currentRetryAttempt ||= 0;
-	config.retry = typeof config.retry === 'number' ? config.retry : 3;
-	config.retryDelay =
-		typeof config.retryDelay === 'number' ? config.retryDelay : 100;
-	config.backoffType ||= 'exponential';
-	config.httpMethodsToRetry = normalizeArray(config.httpMethodsToRetry) || [
-		'GET',
-		'HEAD',
-		'PUT',
-		'OPTIONS',
-		'DELETE',
-	];
-	config.checkRetryAfter =
-		typeof config.checkRetryAfter === 'boolean' ? config.checkRetryAfter : true;
-	config.maxRetryAfter =
-		typeof config.maxRetryAfter === 'number'
-			? config.maxRetryAfter
-			: 60_000 * 5;
+/**
+ * Get the current time (in ms since the epoch) from the clock of a retry
+ * config.
+ * @param config The retry config.
+ */
+function getTime(config: RetryConfig | undefined) {
+	return config?.clock ? config.clock() : Date.now();
+}
 
-	config.statusCodesToRetry =
-		normalizeArray(config.statusCodesToRetry) || retryRanges;
+const backoffStrategies: Record<BackoffType, BackoffStrategy> = {
+	static: staticBackoff,
+	linear: linearBackoff,
+	exponential: exponentialBackoff,
+	'decorrelated-jitter': decorrelatedJitterBackoff,
+	fibonacci: fibonacciBackoff,
+	polynomial: polynomialBackoff,
+};
 
-	// Put the config back into the err
-	const axiosError = error as AxiosError;
+// If this wasn't in the list of status codes where we want to automatically retry, return.
+const retryRanges = [
+	// https://en.wikipedia.org/wiki/List_of_HTTP_status_codes
+	// 1xx - Retry (Informational, request still processing)
+	// 2xx - Do not retry (Success)
+	// 3xx - Do not retry (Redirect)
+	// 4xx - Do not retry (Client errors)
+	// 429 - Retry ("Too Many Requests")
+	// 5xx - Retry (Server errors)
+	[100, 199],
+	[429, 429],
+	[500, 599],
+];
 
-	// biome-ignore lint/suspicious/noExplicitAny: Allow for wider range of errors
-	(axiosError.config as any) = axiosError.config || {}; // Allow for wider range of errors
-	(axiosError.config as RaxConfig).raxConfig = { ...config };
+// HTTP methods that are safe to send more than once
+const retryMethods = ['GET', 'HEAD', 'PUT', 'OPTIONS', 'DELETE'];
 
-	// Initialize errors array on first error, or append to existing array
-	const errors = config.errors ?? [];
-	errors.push(axiosError);
+// Network error codes that are usually transient. DNS lookups for hosts that
+// don't exist (ENOTFOUND) and TLS failures are left out, as they won't succeed
+// on a retry.
+const retryErrorCodes = [
+	'ECONNRESET',
+	'ETIMEDOUT',
+	'ECONNABORTED',
+	'EPIPE',
+	'EAI_AGAIN',
+	'ERR_NETWORK',
+];
 
-	setConfigMetadata(config, errors);
-	setConfigMetadata((axiosError.config as RaxConfig).raxConfig, errors);
+/**
+ * Names of the built-in retry policies.
+ */
+export type RetryPolicyName =
+	| 'googleApis'
+	| 'awsStandard'
+	| 'interactive'
+	| 'background';
 
-	// Determine if we should retry the request
-	// First check the retry count limit, then apply custom logic if provided
-	if (config.shouldRetry) {
-		// When custom shouldRetry is provided, we still need to check the retry count
-		// to prevent infinite retries (see issue #117)
-		config.currentRetryAttempt ||= 0;
-		if (config.currentRetryAttempt >= (config.retry ?? 0)) {
-			throw axiosError;
+/**
+ * Built-in retry configs for common situations. Each policy is a complete
+ * config, and can be extended with overrides:
+ * `{ ...rax.policies.googleApis, retry: 3 }`.
+ * - 'googleApis': Truncated exponential backoff with full jitter, capped at 32
+ *   seconds, as recommended for Google Cloud APIs
+ * - 'awsStandard': Two retries with full jitter, capped at 20 seconds, like
+ *   the "standard" retry mode of the AWS SDKs
+ * - 'interactive': A couple of quick retries that give up within a few
+ *   seconds, for requests a user is waiting on
+ * - 'background': Many retries with long delays, for jobs nobody is waiting on
+ */
+export const policies: Readonly<
+	Record<RetryPolicyName, Readonly<RetryConfig>>
+> = Object.freeze({
+	googleApis: Object.freeze({
+		retry: 5,
+		retryDelay: 2000,
+		backoffType: 'exponential',
+		jitter: 'full',
+		maxRetryDelay: 32_000,
+		httpMethodsToRetry: [...retryMethods],
+		statusCodesToRetry: [
+			[408, 408],
+			[429, 429],
+			[500, 500],
+			[502, 504],
+		],
+		errorCodesToRetry: [...retryErrorCodes],
+		checkRetryAfter: true,
+		maxRetryAfter: 60_000,
+		retryAfterMode: 'clamp',
+	}),
+	awsStandard: Object.freeze({
+		retry: 2,
+		retryDelay: 200,
+		backoffType: 'exponential',
+		jitter: 'full',
+		maxRetryDelay: 20_000,
+		httpMethodsToRetry: [...retryMethods],
+		statusCodesToRetry: [
+			[429, 429],
+			[500, 500],
+			[502, 504],
+		],
+		errorCodesToRetry: [...retryErrorCodes],
+		checkRetryAfter: true,
+		maxRetryAfter: 20_000,
+		retryAfterMode: 'clamp',
+	}),
+	interactive: Object.freeze({
+		retry: 2,
+		retryDelay: 200,
+		backoffType: 'exponential',
+		jitter: 'equal',
+		maxRetryDelay: 1000,
+		totalTimeout: 10_000,
+		httpMethodsToRetry: [...retryMethods],
+		statusCodesToRetry: [
+			[429, 429],
+			[500, 599],
+		],
+		errorCodesToRetry: [...retryErrorCodes],
+		checkRetryAfter: true,
+		maxRetryAfter: 2000,
+		retryAfterMode: 'reject',
+	}),
+	background: Object.freeze({
+		retry: 10,
+		retryDelay: 1000,
+		backoffType: 'exponential',
+		jitter: 'full',
+		maxRetryDelay: 60_000,
+		httpMethodsToRetry: [...retryMethods],
+		statusCodesToRetry: [
+			[408, 408],
+			[429, 429],
+			[500, 599],
+		],
+		errorCodesToRetry: [...retryErrorCodes],
+		checkRetryAfter: true,
+		maxRetryAfter: 60_000 * 5,
+		retryAfterMode: 'clamp',
+	}),
+});
+
+/**
+ * Options that apply to every request made through an attached instance.
+ */
+export interface AttachOptions {
+	/**
+	 * Retry budget shared by every request made through the instance. When the
+	 * budget runs out, failed requests are rejected with the original error
+	 * instead of being retried.
+	 */
+	retryBudget?: RetryBudget;
+
+	/**
+	 * Circuit breaker shared by every request made through the instance. While
+	 * the circuit for a key is open, requests are rejected with a
+	 * `CircuitOpenError` without hitting the network.
+	 */
+	circuitBreaker?: CircuitBreaker;
+
+	/**
+	 * Event emitter which is notified when retries are scheduled, given up on,
+	 * or succeed.
+	 */
+	events?: RetryEventEmitter;
+
+	/**
+	 * Tracer which records each retry as a child span covering the backoff
+	 * delay. Compatible with an OpenTelemetry `Tracer`.
+	 */
+	tracer?: RetryTracer;
+
+	/**
+	 * Metrics collector which counts attempts, retries, successes and give-ups,
+	 * and keeps histograms of backoff delays and request latency.
+	 */
+	metrics?: RetryMetrics;
+
+	/**
+	 * Rate limiter which reads `RateLimit-*` and `X-RateLimit-*` headers from
+	 * every response, and holds requests to an origin whose quota has run out
+	 * until the quota resets.
+	 */
+	rateLimiter?: RateLimiter;
+
+	/**
+	 * Connectivity provider which tells whether the device is online. Requests
+	 * which fail without a response while offline are sent again once the
+	 * device is back online, without counting as an attempt, and backoff delays
+	 * are paused while offline. Requests sent again wait for a
+	 * `maxConcurrentRetries` slot like retries do. Waiting for the device to
+	 * come back online never runs past `totalTimeout`.
+	 */
+	connectivity?: ConnectivityProvider;
+
+	/**
+	 * Ordered list of rules which pick the retry config for a request by its
+	 * method and URL. The first matching rule is used. It takes precedence over
+	 * the instance's `defaults.raxConfig`, which is taken out of the Axios
+	 * config merge until `detach`, and the `raxConfig` of the request takes
+	 * precedence over it.
+	 */
+	rules?: RetryRule[];
+
+	/**
+	 * What to do when a retry config is invalid. Configs are checked when
+	 * `attach` is called, and on the first attempt of each request. Defaults to
+	 * 'throw'.
+	 * - 'throw': Throw a `RetryConfigError`
+	 * - 'warn': Log a warning with `console.warn`, and carry on
+	 * - 'off': Don't check configs
+	 *
+	 * The options passed to `attach`, like `maxConcurrentRetries` and
+	 * `retryQueueTimeout`, are always checked, and throw a `RetryConfigError`
+	 * when invalid, since a bad value can leave retries waiting forever.
+	 */
+	configValidation?: 'throw' | 'warn' | 'off';
+
+	/**
+	 * The most retries sent through the instance that may be in flight at
+	 * once. Once the backoff delay of a retry has passed, it waits in a queue
+	 * until a slot is free, ordered by `retryPriority`. Retries hold a slot
+	 * until their response or error arrives. Must be a positive integer.
+	 * Unlimited by default.
+	 */
+	maxConcurrentRetries?: number;
+
+	/**
+	 * The longest (in ms) a retry waits in the `maxConcurrentRetries` queue.
+	 * Retries that wait longer aren't sent, and the request is rejected with an
+	 * `AxiosError` whose code is 'ERR_RETRY_QUEUE_TIMEOUT'. Retries wait for as
+	 * long as it takes by default.
+	 */
+	retryQueueTimeout?: number;
+}
+
+/**
+ * Matches a request URL. Strings are globs where `*` matches within a path
+ * segment and `**` matches across segments. Globs starting with `/` are
+ * matched against the URL path, and all other patterns against the full URL.
+ */
+export type RetryRuleUrlPattern =
+	| string
+	| RegExp
+	| ((url: string, config: AxiosRequestConfig) => boolean);
+
+/**
+ * A rule which applies a retry config to the requests it matches.
+ */
+export interface RetryRule {
+	/**
+	 * Name of the rule, exposed as `ruleName` on the config of matching requests.
+	 */
+	name: string;
+
+	/**
+	 * HTTP methods to match. Matches every method when omitted.
+	 */
+	method?: string | string[];
+
+	/**
+	 * URL pattern to match. Matches every URL when omitted.
+	 */
+	url?: RetryRuleUrlPattern;
+
+	/**
+	 * Retry config for matching requests.
+	 */
+	config: RetryConfig;
+}
+
+/**
+ * Attributes recorded on a retry span.
+ */
+export type RetrySpanAttributes = Record<
+	string,
+	string | number | boolean | undefined
+>;
+
+/**
+ * The subset of an OpenTelemetry `Span` used to trace retries.
+ */
+export interface RetrySpan {
+	end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used to trace retries.
+ */
+export interface RetryTracer {
+	startSpan(
+		name: string,
+		options?: { attributes?: RetrySpanAttributes },
+	): RetrySpan;
+}
+
+/**
+ * Why a retry was scheduled.
+ * - 'statusCode': The response status code is retryable
+ * - 'networkError': The request failed without a response
+ * - 'response': The response was rejected by `shouldRetryResponse`
+ * - 'custom': The custom `shouldRetry` function allowed it
+ */
+export type RetryScheduledReason =
+	| 'statusCode'
+	| 'networkError'
+	| 'response'
+	| 'custom';
+
+/**
+ * Why the interceptor gave up on retrying a request.
+ * - 'maxAttempts': Retries are disabled, or all of them were used
+ * - 'statusCode': The response status code is not retryable
+ * - 'method': The HTTP method is not retryable
+ * - 'errorCode': The error code of a network error is not retryable
+ * - 'nonReplayableBody': The request body can only be read once
+ * - 'retryAfterTooLong': The Retry-After delay is longer than `maxRetryAfter`
+ * - 'retryAfterInvalid': The Retry-After header could not be used
+ * - 'custom': The custom `shouldRetry` function declined
+ * - 'circuitOpen': The circuit breaker opened
+ * - 'deadline': The retry would start after the `totalTimeout` deadline
+ * - 'retryBudget': The retry budget ran out
+ * - 'queueTimeout': The retry waited longer than `retryQueueTimeout` for a
+ *   free slot
+ */
+export type RetryGivenUpReason =
+	| 'maxAttempts'
+	| 'statusCode'
+	| 'method'
+	| 'errorCode'
+	| 'nonReplayableBody'
+	| 'retryAfterTooLong'
+	| 'retryAfterInvalid'
+	| 'custom'
+	| 'circuitOpen'
+	| 'deadline'
+	| 'retryBudget'
+	| 'queueTimeout';
+
+/**
+ * Emitted when a retry has been scheduled, before the backoff delay.
+ */
+export interface RetryScheduledEvent {
+	/**
+	 * The error that triggered the retry.
+	 */
+	error: AxiosError;
+
+	/**
+	 * The retry config of the request.
+	 */
+	config: RetryConfig;
+
+	/**
+	 * The value of `currentRetryAttempt` before the retry, so 0 when the first
+	 * request failed.
+	 */
+	attempt: number;
+
+	/**
+	 * The delay in milliseconds before the retry is made.
+	 */
+	delay: number;
+
+	/**
+	 * Why the retry was scheduled.
+	 */
+	reason: RetryScheduledReason;
+}
+
+/**
+ * Emitted when the interceptor gives up on retrying a request.
+ */
+export interface RetryGivenUpEvent {
+	/**
+	 * The last error encountered.
+	 */
+	error: AxiosError;
+
+	/**
+	 * The retry config of the request.
+	 */
+	config: RetryConfig;
+
+	/**
+	 * The number of retries that were made.
+	 */
+	attempt: number;
+
+	/**
+	 * Why the interceptor gave up.
+	 */
+	reason: RetryGivenUpReason;
+}
+
+/**
+ * Emitted when a request succeeds after at least one retry.
+ */
+export interface RetrySucceededEvent {
+	/**
+	 * The successful response.
+	 */
+	response: AxiosResponse;
+
+	/**
+	 * The retry config of the request.
+	 */
+	config: RetryConfig;
+
+	/**
+	 * The total number of attempts, including the first request.
+	 */
+	attempts: number;
+
+	/**
+	 * The total time in milliseconds spent waiting between retries.
+	 */
+	totalDelay: number;
+}
+
+/**
+ * Emitted when a retry has to wait for a free slot, because
+ * `maxConcurrentRetries` retries are already in flight.
+ */
+export interface RetryQueuedEvent {
+	/**
+	 * The error that triggered the retry.
+	 */
+	error: AxiosError;
+
+	/**
+	 * The retry config of the request.
+	 */
+	config: RetryConfig;
+
+	/**
+	 * The retry that is waiting, starting at 1.
+	 */
+	attempt: number;
+
+	/**
+	 * The number of retries waiting for a slot, including this one.
+	 */
+	queueDepth: number;
+}
+
+/**
+ * Emitted when a queued retry gets a free slot, right before it is sent.
+ */
+export interface RetryDequeuedEvent {
+	/**
+	 * The error that triggered the retry.
+	 */
+	error: AxiosError;
+
+	/**
+	 * The retry config of the request.
+	 */
+	config: RetryConfig;
+
+	/**
+	 * The retry that got a slot, starting at 1.
+	 */
+	attempt: number;
+
+	/**
+	 * The time in milliseconds the retry waited for a slot.
+	 */
+	waitTime: number;
+
+	/**
+	 * The number of retries still waiting for a slot.
+	 */
+	queueDepth: number;
+}
+
+/**
+ * The events emitted by the interceptor, keyed by name.
+ */
+export interface RetryEventMap {
+	retryScheduled: RetryScheduledEvent;
+	retryGivenUp: RetryGivenUpEvent;
+	retrySucceeded: RetrySucceededEvent;
+	retryQueued: RetryQueuedEvent;
+	retryDequeued: RetryDequeuedEvent;
+}
+
+export type RetryEventListener<K extends keyof RetryEventMap> = (
+	event: RetryEventMap[K],
+) => void;
+
+/**
+ * A minimal typed event emitter for retry events.
+ */
+export interface RetryEventEmitter {
+	/**
+	 * Add a listener for an event.
+	 */
+	on<K extends keyof RetryEventMap>(
+		name: K,
+		listener: RetryEventListener<K>,
+	): void;
+
+	/**
+	 * Remove a listener for an event.
+	 */
+	off<K extends keyof RetryEventMap>(
+		name: K,
+		listener: RetryEventListener<K>,
+	): void;
+
+	/**
+	 * Call every listener for an event.
+	 */
+	emit<K extends keyof RetryEventMap>(name: K, event: RetryEventMap[K]): void;
+}
+
+/**
+ * Create an event emitter which can be passed to `attach` to observe retries.
+ * @returns A retry event emitter.
+ */
+export function createRetryEventEmitter(): RetryEventEmitter {
+	const listeners: {
+		[K in keyof RetryEventMap]: Set<RetryEventListener<K>>;
+	} = {
+		retryScheduled: new Set(),
+		retryGivenUp: new Set(),
+		retrySucceeded: new Set(),
+		retryQueued: new Set(),
+		retryDequeued: new Set(),
+	};
+	return {
+		on(name, listener) {
+			listeners[name].add(listener);
+		},
+		off(name, listener) {
+			listeners[name].delete(listener);
+		},
+		emit(name, event) {
+			for (const listener of listeners[name]) {
+				listener(event);
+			}
+		},
+	};
+}
+
+/**
+ * Options for a token bucket based retry budget.
+ */
+export interface RetryBudgetOptions {
+	/**
+	 * The maximum number of tokens the bucket can hold. The bucket starts full.
+	 * Defaults to 10.
+	 */
+	maxTokens?: number;
+
+	/**
+	 * The number of tokens a single retry costs. Defaults to 1.
+	 */
+	retryCost?: number;
+
+	/**
+	 * The number of tokens returned to the bucket for every successful
+	 * response. Defaults to 0.1, so ten successes pay for one retry.
+	 */
+	successCredit?: number;
+}
+
+/**
+ * A snapshot of the current state of a retry budget.
+ */
+export interface RetryBudgetState {
+	/**
+	 * The number of tokens currently available.
+	 */
+	tokens: number;
+
+	/**
+	 * The maximum number of tokens the bucket can hold.
+	 */
+	maxTokens: number;
+
+	/**
+	 * The number of retries that were allowed by the budget.
+	 */
+	retriesAllowed: number;
+
+	/**
+	 * The number of retries that were denied because the budget ran out.
+	 */
+	retriesDenied: number;
+}
+
+/**
+ * A retry budget that is shared across requests to limit the extra load
+ * retries put on a failing backend.
+ */
+export interface RetryBudget {
+	/**
+	 * Attempt to take the tokens needed for a single retry.
+	 * @returns true if the retry may proceed, false if the budget ran out.
+	 */
+	tryAcquire(): boolean;
+
+	/**
+	 * Credit the budget for a successful response.
+	 */
+	recordSuccess(): void;
+
+	/**
+	 * Read the current state of the budget.
+	 */
+	getState(): RetryBudgetState;
+}
+
+/**
+ * Create a token bucket based retry budget which can be passed to `attach`.
+ * Every retry takes `retryCost` tokens from the bucket, and every successful
+ * response puts `successCredit` tokens back.
+ * @param options The options for the budget.
+ * @returns A retry budget.
+ */
+export function createRetryBudget(
+	options: RetryBudgetOptions = {},
+): RetryBudget {
+	const maxTokens =
+		typeof options.maxTokens === 'number' ? options.maxTokens : 10;
+	const retryCost =
+		typeof options.retryCost === 'number' ? options.retryCost : 1;
+	const successCredit =
+		typeof options.successCredit === 'number' ? options.successCredit : 0.1;
+	let tokens = maxTokens;
+	let retriesAllowed = 0;
+	let retriesDenied = 0;
+	return {
+		tryAcquire() {
+			if (tokens < retryCost) {
+				retriesDenied++;
+				return false;
+			}
+
+			tokens -= retryCost;
+			retriesAllowed++;
+			return true;
+		},
+		recordSuccess() {
+			tokens = Math.min(maxTokens, tokens + successCredit);
+		},
+		getState() {
+			return { tokens, maxTokens, retriesAllowed, retriesDenied };
+		},
+	};
+}
+
+/**
+ * The state of a circuit.
+ * - 'closed': Requests flow normally
+ * - 'open': Requests are rejected without hitting the network
+ * - 'half-open': A single trial request is let through to probe for recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+	/**
+	 * The number of consecutive failures that opens the circuit. Defaults to 5.
+	 */
+	failureThreshold?: number;
+
+	/**
+	 * How long (in ms) the circuit stays open before a trial request is let
+	 * through. Defaults to 30 seconds.
+	 */
+	resetTimeout?: number;
+
+	/**
+	 * Function which groups requests into circuits. Defaults to the origin of
+	 * the request URL.
+	 */
+	key?: (config: AxiosRequestConfig) => string;
+
+	/**
+	 * Function which determines if an error counts as a failure. Defaults to
+	 * network errors and 5xx responses. Errors that are not failures close the
+	 * circuit, as the server did respond.
+	 */
+	isFailure?: (error: AxiosError) => boolean;
+
+	/**
+	 * Function which returns the current time (in ms since the epoch). Defaults
+	 * to `Date.now`.
+	 */
+	clock?: () => number;
+}
+
+/**
+ * A snapshot of the state of a single circuit.
+ */
+export interface CircuitStatus {
+	/**
+	 * The current state of the circuit.
+	 */
+	state: CircuitState;
+
+	/**
+	 * The number of consecutive failures.
+	 */
+	failures: number;
+
+	/**
+	 * The time (in ms since the epoch) at which the circuit was last opened.
+	 */
+	openedAt?: number;
+
+	/**
+	 * The last failure recorded for the circuit.
+	 */
+	lastError?: AxiosError;
+}
+
+/**
+ * A circuit breaker which tracks consecutive failures per key.
+ */
+export interface CircuitBreaker {
+	/**
+	 * Get the key of the circuit a request belongs to.
+	 */
+	getKey(config: AxiosRequestConfig): string;
+
+	/**
+	 * Determine if a request may be sent on the circuit. Moves an open circuit
+	 * to half-open once the reset timeout has passed.
+	 */
+	allowRequest(key: string): boolean;
+
+	/**
+	 * Record a successful response on the circuit.
+	 */
+	recordSuccess(key: string): void;
+
+	/**
+	 * Record an error on the circuit.
+	 */
+	recordError(key: string, error: AxiosError): void;
+
+	/**
+	 * Read the current state of the circuit.
+	 */
+	getState(key: string): CircuitStatus;
+}
+
+/**
+ * Error thrown when a request is rejected because its circuit is open.
+ */
+export class CircuitOpenError extends Error {
+	readonly code = 'ERR_CIRCUIT_OPEN';
+
+	/**
+	 * The key of the circuit that rejected the request.
+	 */
+	readonly key: string;
+
+	/**
+	 * The last failure recorded for the circuit.
+	 */
+	readonly lastError: AxiosError | undefined;
+
+	constructor(key: string, lastError?: AxiosError) {
+		super(`Circuit is open for ${key}`);
+		this.name = 'CircuitOpenError';
+		this.key = key;
+		this.lastError = lastError;
+	}
+}
+
+/**
+ * Error thrown when a retry config is invalid.
+ */
+export class RetryConfigError extends Error {
+	readonly code = 'ERR_INVALID_RETRY_CONFIG';
+
+	/**
+	 * Description of each invalid field.
+	 */
+	readonly problems: string[];
+
+	constructor(problems: string[]) {
+		super(
+			`Invalid retry config:\n${problems.map((problem) => `- ${problem}`).join('\n')}`,
+		);
+		this.name = 'RetryConfigError';
+		this.problems = problems;
+	}
+}
+
+// Warnings about status codes which may be a range missing its brackets,
+// so each is only logged once.
+const rangeWarnings = new Set<string>();
+
+/**
+ * Check a retry config for values that would otherwise be ignored, or quietly
+ * replaced by defaults.
+ * @param config The retry config to check.
+ * @param mode 'throw' to throw a `RetryConfigError` when the config is
+ * invalid, or 'warn' to log a warning instead. Defaults to 'throw'.
+ * @returns Description of each invalid field, which is empty when the config
+ * is valid.
+ */
+export function validateConfig(
+	config: RetryConfig,
+	mode: 'throw' | 'warn' = 'throw',
+): string[] {
+	const problems: string[] = [];
+	const show = (value: unknown) =>
+		typeof value === 'function'
+			? 'a function'
+			: typeof value === 'string'
+				? `'${value}'`
+				: JSON.stringify(value);
+	const check = (
+		field: keyof RetryConfig,
+		isValid: (value: unknown) => boolean,
+		expected: string,
+	) => {
+		const value = config[field];
+		if (value !== undefined && !isValid(value)) {
+			problems.push(`${field} must be ${expected}, got ${show(value)}`);
+		}
+	};
+
+	const isCount = (value: unknown) =>
+		typeof value === 'number' && Number.isInteger(value) && value >= 0;
+	const isDuration = (value: unknown) =>
+		typeof value === 'number' && Number.isFinite(value) && value >= 0;
+	const isBoolean = (value: unknown) => typeof value === 'boolean';
+	const isFunction = (value: unknown) => typeof value === 'function';
+	const isOneOf = (values: unknown[]) => (value: unknown) =>
+		values.includes(value);
+
+	check('retry', isCount, 'a non-negative integer');
+	check('retryDelay', isDuration, 'a non-negative number of milliseconds');
+	check('maxRetryDelay', isDuration, 'a non-negative number of milliseconds');
+	check('maxRetryAfter', isDuration, 'a non-negative number of milliseconds');
+	check('totalTimeout', isDuration, 'a non-negative number of milliseconds');
+	check('hedgeDelay', isDuration, 'a non-negative number of milliseconds');
+	check('maxHedges', isCount, 'a non-negative integer');
+	check('maxBufferSize', isCount, 'a non-negative number of bytes');
+	check(
+		'retryPriority',
+		(value) => typeof value === 'number' && Number.isFinite(value),
+		'a finite number',
+	);
+	check(
+		'backoffExponent',
+		(value) => typeof value === 'number' && value > 0,
+		'a positive number',
+	);
+	const backoffTypes = Object.keys(backoffStrategies);
+	check(
+		'backoffType',
+		(value) => isFunction(value) || backoffTypes.includes(value as string),
+		`a function or one of ${backoffTypes.map(show).join(', ')}`,
+	);
+	check(
+		'jitter',
+		isOneOf(['none', 'full', 'equal']),
+		"one of 'none', 'full', 'equal'",
+	);
+	check(
+		'retryAfterMode',
+		isOneOf(['reject', 'clamp', 'ignore']),
+		"one of 'reject', 'clamp', 'ignore'",
+	);
+	check(
+		'nonReplayableBody',
+		isOneOf(['skip', 'buffer']),
+		"one of 'skip', 'buffer'",
+	);
+	check('checkRetryAfter', isBoolean, 'a boolean');
+	check('useResponseDate', isBoolean, 'a boolean');
+	check(
+		'useIdempotencyKey',
+		(value) => isBoolean(value) || isFunction(value),
+		'a boolean or a function',
+	);
+	for (const field of [
+		'onError',
+		'onRetryAttempt',
+		'shouldRetry',
+		'shouldRetryResponse',
+		'bodyFactory',
+		'clock',
+		'random',
+		'sleep',
+	] as const) {
+		check(field, isFunction, 'a function');
+	}
+
+	const checkArray = (
+		field: keyof RetryConfig,
+		isValid: (item: unknown) => boolean,
+		expected: string,
+	) => {
+		const value = config[field];
+		if (value === undefined) {
+			return;
+		}
+
+		const array =
+			typeof value === 'object' && value !== null
+				? normalizeArray(value as unknown[])
+				: undefined;
+		if (!array) {
+			problems.push(`${field} must be an array, got ${show(value)}`);
+			return;
+		}
+
+		for (const [index, item] of array.entries()) {
+			if (!isValid(item)) {
+				problems.push(
+					`${field}[${index}] must be ${expected}, got ${show(item)}`,
+				);
+			}
+		}
+	};
+
+	checkArray(
+		'httpMethodsToRetry',
+		(item) => typeof item === 'string' && item === item.toUpperCase(),
+		"an uppercase HTTP method, like 'GET'",
+	);
+	const isStatusCodeMatcher = (item: unknown) => {
+		if (typeof item === 'number') {
+			return Number.isInteger(item) && item >= 100 && item <= 599;
+		}
+
+		if (typeof item === 'string') {
+			return /^!?[1-5](xx|\d\d)$/i.test(item);
+		}
+
+		const range =
+			typeof item === 'object' && item !== null
+				? normalizeArray(item as number[])
+				: undefined;
+		return (
+			range?.length === 2 &&
+			range.every((code) => Number.isInteger(code)) &&
+			range[0] <= range[1]
+		);
+	};
+
+	for (const field of [
+		'statusCodesToRetry',
+		'statusCodesToNotRetry',
+	] as const) {
+		checkArray(
+			field,
+			isStatusCodeMatcher,
+			"a status code, a [min, max] range of status codes, or a string like '5xx' or '!501'",
+		);
+	}
+
+	// Two ascending codes may be a range missing its brackets. They are valid
+	// single codes too, so only warn about them, once.
+	const statusCodes =
+		typeof config.statusCodesToRetry === 'object' &&
+		config.statusCodesToRetry !== null
+			? normalizeArray(config.statusCodesToRetry)
+			: undefined;
+	if (
+		statusCodes?.length === 2 &&
+		typeof statusCodes[0] === 'number' &&
+		typeof statusCodes[1] === 'number' &&
+		statusCodes[0] < statusCodes[1]
+	) {
+		const [min, max] = statusCodes;
+		const statusClass =
+			min % 100 === 0 && max === min + 99 ? ` or '${min / 100}xx'` : '';
+		const warning = `statusCodesToRetry only retries ${min} and ${max}. If you meant every code from ${min} to ${max}, use [[${min}, ${max}]]${statusClass}.`;
+		if (!rangeWarnings.has(warning)) {
+			rangeWarnings.add(warning);
+			console.warn(warning);
+		}
+	}
+
+	checkArray(
+		'errorCodesToRetry',
+		(item) => typeof item === 'string',
+		"an error code, like 'ECONNRESET'",
+	);
+	checkArray(
+		'errorCodesToNotRetry',
+		(item) => typeof item === 'string',
+		"an error code, like 'ECONNRESET'",
+	);
+
+	if (problems.length > 0) {
+		const error = new RetryConfigError(problems);
+		if (mode === 'throw') {
+			throw error;
+		}
+
+		console.warn(error.message);
+	}
+
+	return problems;
+}
+
+/**
+ * Get the origin of the URL a request is sent to.
+ * @param config The request config.
+ */
+function getOrigin(config: AxiosRequestConfig) {
+	try {
+		return new URL(config.url ?? '', config.baseURL).origin;
+	} catch {
+		return config.baseURL ?? config.url ?? '';
+	}
+}
+
+/**
+ * Get the full URL a request is sent to.
+ * @param config The request config.
+ */
+function getUrl(config: AxiosRequestConfig) {
+	try {
+		return new URL(config.url ?? '', config.baseURL).href;
+	} catch {
+		return `${config.baseURL ?? ''}${config.url ?? ''}`;
+	}
+}
+
+/**
+ * Convert a URL glob into a regular expression.
+ * @param glob The glob, where `*` matches within a path segment and `**`
+ * matches across segments.
+ */
+function globToRegExp(glob: string) {
+	const source = glob
+		.split('**')
+		.map((part) =>
+			part
+				.split('*')
+				.map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+				.join('[^/]*'),
+		)
+		.join('.*');
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the first rule which matches the method and URL of a request.
+ * @param rules The rules passed to `attach`.
+ * @param config The request config.
+ */
+function findRule(rules: RetryRule[], config: AxiosRequestConfig) {
+	const method = config.method?.toUpperCase() ?? 'GET';
+	const url = getUrl(config);
+	return rules.find((rule) => {
+		if (rule.method) {
+			const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+			if (!methods.some((m) => m.toUpperCase() === method)) {
+				return false;
+			}
+		}
+
+		const pattern = rule.url;
+		if (pattern === undefined) {
+			return true;
+		}
+
+		if (typeof pattern === 'function') {
+			return pattern(url, config);
+		}
+
+		if (pattern instanceof RegExp) {
+			return pattern.test(url);
+		}
+
+		// Match path globs against the path, ignoring the query string
+		const target = pattern.startsWith('/')
+			? new URL(url, 'http://localhost').pathname
+			: url;
+		return globToRegExp(pattern).test(target);
+	});
+}
+
+function isServerFailure(error: AxiosError) {
+	return !error.response || error.response.status >= 500;
+}
+
+/**
+ * Create a circuit breaker which can be passed to `attach`. Each circuit moves
+ * from closed to open after `failureThreshold` consecutive failures, and from
+ * open to half-open after `resetTimeout`. A success on a half-open circuit
+ * closes it, and a failure opens it again.
+ * @param options The options for the circuit breaker.
+ * @returns A circuit breaker.
+ */
+export function createCircuitBreaker(
+	options: CircuitBreakerOptions = {},
+): CircuitBreaker {
+	const failureThreshold =
+		typeof options.failureThreshold === 'number' ? options.failureThreshold : 5;
+	const resetTimeout =
+		typeof options.resetTimeout === 'number' ? options.resetTimeout : 30_000;
+	const isFailure = options.isFailure || isServerFailure;
+	const clock = options.clock || Date.now;
+	const circuits = new Map<string, CircuitStatus & { trialAt?: number }>();
+
+	function getCircuit(key: string) {
+		let circuit = circuits.get(key);
+		if (!circuit) {
+			circuit = { state: 'closed', failures: 0 };
+			circuits.set(key, circuit);
+		}
+
+		return circuit;
+	}
+
+	return {
+		getKey(config) {
+			return options.key ? options.key(config) : getOrigin(config);
+		},
+		allowRequest(key) {
+			const circuit = getCircuit(key);
+			const now = clock();
+			if (circuit.state === 'closed') {
+				return true;
+			}
+
+			if (
+				circuit.state === 'open' &&
+				now - (circuit.openedAt ?? 0) >= resetTimeout
+			) {
+				circuit.state = 'half-open';
+				delete circuit.trialAt;
+			}
+
+			// Only let a single trial through while half-open. If the trial never
+			// settles, let another one through after the reset timeout.
+			if (
+				circuit.state === 'half-open' &&
+				(circuit.trialAt === undefined || now - circuit.trialAt >= resetTimeout)
+			) {
+				circuit.trialAt = now;
+				return true;
+			}
+
+			return false;
+		},
+		recordSuccess(key) {
+			const circuit = getCircuit(key);
+			circuit.state = 'closed';
+			circuit.failures = 0;
+			delete circuit.trialAt;
+		},
+		recordError(key, error) {
+			if (!isFailure(error)) {
+				this.recordSuccess(key);
+				return;
+			}
+
+			const circuit = getCircuit(key);
+			circuit.failures++;
+			circuit.lastError = error;
+			if (
+				circuit.state === 'half-open' ||
+				circuit.failures >= failureThreshold
+			) {
+				circuit.state = 'open';
+				circuit.openedAt = clock();
+				delete circuit.trialAt;
+			}
+		},
+		getState(key) {
+			const { trialAt: _trialAt, ...status } = getCircuit(key);
+			return status;
+		},
+	};
+}
+
+/**
+ * Labels which break down retry metrics.
+ */
+export interface RetryMetricLabels {
+	/**
+	 * The HTTP method of the request.
+	 */
+	method: string;
+
+	/**
+	 * The host the request was sent to.
+	 */
+	host: string;
+
+	/**
+	 * The status code of the response, or the error code when there was no
+	 * response.
+	 */
+	status: string;
+
+	/**
+	 * Why the interceptor gave up. Only set on give-ups.
+	 */
+	reason?: string;
+}
+
+/**
+ * The value of a counter for a set of labels.
+ */
+export interface CounterSample {
+	labels: RetryMetricLabels;
+	value: number;
+}
+
+/**
+ * The observations of a histogram for a set of labels.
+ */
+export interface HistogramSample {
+	labels: RetryMetricLabels;
+
+	/**
+	 * The cumulative number of observations less than or equal to each bucket
+	 * boundary, in the same order as the boundaries.
+	 */
+	buckets: Array<{ le: number; count: number }>;
+
+	/**
+	 * The sum of all observations.
+	 */
+	sum: number;
+
+	/**
+	 * The number of observations.
+	 */
+	count: number;
+}
+
+/**
+ * A snapshot of all retry metrics.
+ */
+export interface RetryMetricsSnapshot {
+	/**
+	 * Every request attempt, including the first.
+	 */
+	attempts: CounterSample[];
+
+	/**
+	 * Retries which were scheduled.
+	 */
+	retries: CounterSample[];
+
+	/**
+	 * Requests which succeeded after at least one retry.
+	 */
+	successesAfterRetry: CounterSample[];
+
+	/**
+	 * Requests which the interceptor gave up on retrying.
+	 */
+	giveUps: CounterSample[];
+
+	/**
+	 * Backoff delays in milliseconds.
+	 */
+	backoffDelay: HistogramSample[];
+
+	/**
+	 * Total request latency in milliseconds, including every retry.
+	 */
+	requestLatency: HistogramSample[];
+}
+
+/**
+ * Options for a metrics collector.
+ */
+export interface RetryMetricsOptions {
+	/**
+	 * Prefix for the metric names in the text exposition format. Defaults to
+	 * 'retry_axios'.
+	 */
+	prefix?: string;
+
+	/**
+	 * Histogram bucket boundaries in milliseconds. Defaults to
+	 * [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000].
+	 */
+	buckets?: number[];
+}
+
+/**
+ * A metrics collector for retries.
+ */
+export interface RetryMetrics {
+	/**
+	 * Record a request attempt.
+	 */
+	recordAttempt(labels: RetryMetricLabels): void;
+
+	/**
+	 * Record a scheduled retry and its backoff delay.
+	 */
+	recordRetry(labels: RetryMetricLabels, delay: number): void;
+
+	/**
+	 * Record a successful request and its total latency.
+	 */
+	recordSuccess(
+		labels: RetryMetricLabels,
+		retries: number,
+		latency: number,
+	): void;
+
+	/**
+	 * Record a request the interceptor gave up on and its total latency.
+	 */
+	recordGiveUp(labels: RetryMetricLabels, latency: number): void;
+
+	/**
+	 * Read the current value of every metric.
+	 */
+	getSnapshot(): RetryMetricsSnapshot;
+
+	/**
+	 * Format every metric in the Prometheus text exposition format.
+	 */
+	toPrometheus(): string;
+}
+
+/**
+ * Create a metrics collector which can be passed to `attach`.
+ * @param options The options for the metrics collector.
+ * @returns A metrics collector.
+ */
+export function createRetryMetrics(
+	options: RetryMetricsOptions = {},
+): RetryMetrics {
+	const prefix = options.prefix ?? 'retry_axios';
+	const bounds = options.buckets ?? [
+		10, 50, 100, 250, 500, 1000, 2500, 5000, 10_000, 30_000, 60_000,
+	];
+	const counters = {
+		attempts: new Map<string, CounterSample>(),
+		retries: new Map<string, CounterSample>(),
+		successesAfterRetry: new Map<string, CounterSample>(),
+		giveUps: new Map<string, CounterSample>(),
+	};
+	const histograms = {
+		backoffDelay: new Map<string, HistogramSample>(),
+		requestLatency: new Map<string, HistogramSample>(),
+	};
+
+	function increment(
+		counter: Map<string, CounterSample>,
+		labels: RetryMetricLabels,
+	) {
+		const key = JSON.stringify(labels);
+		const sample = counter.get(key) ?? { labels, value: 0 };
+		sample.value++;
+		counter.set(key, sample);
+	}
+
+	function observe(
+		histogram: Map<string, HistogramSample>,
+		labels: RetryMetricLabels,
+		value: number,
+	) {
+		const key = JSON.stringify(labels);
+		const sample = histogram.get(key) ?? {
+			labels,
+			buckets: bounds.map((le) => ({ le, count: 0 })),
+			sum: 0,
+			count: 0,
+		};
+		for (const bucket of sample.buckets) {
+			if (value <= bucket.le) {
+				bucket.count++;
+			}
+		}
+
+		sample.sum += value;
+		sample.count++;
+		histogram.set(key, sample);
+	}
+
+	function getSnapshot(): RetryMetricsSnapshot {
+		const copyCounter = (counter: Map<string, CounterSample>) =>
+			[...counter.values()].map(({ labels, value }) => ({
+				labels: { ...labels },
+				value,
+			}));
+		const copyHistogram = (histogram: Map<string, HistogramSample>) =>
+			[...histogram.values()].map(({ labels, buckets, sum, count }) => ({
+				labels: { ...labels },
+				buckets: buckets.map((bucket) => ({ ...bucket })),
+				sum,
+				count,
+			}));
+		return {
+			attempts: copyCounter(counters.attempts),
+			retries: copyCounter(counters.retries),
+			successesAfterRetry: copyCounter(counters.successesAfterRetry),
+			giveUps: copyCounter(counters.giveUps),
+			backoffDelay: copyHistogram(histograms.backoffDelay),
+			requestLatency: copyHistogram(histograms.requestLatency),
+		};
+	}
+
+	return {
+		recordAttempt(labels) {
+			increment(counters.attempts, labels);
+		},
+		recordRetry(labels, delay) {
+			increment(counters.retries, labels);
+			observe(histograms.backoffDelay, labels, delay);
+		},
+		recordSuccess(labels, retries, latency) {
+			if (retries > 0) {
+				increment(counters.successesAfterRetry, labels);
+			}
+
+			observe(histograms.requestLatency, labels, latency);
+		},
+		recordGiveUp(labels, latency) {
+			increment(counters.giveUps, labels);
+			const { reason: _reason, ...latencyLabels } = labels;
+			observe(histograms.requestLatency, latencyLabels, latency);
+		},
+		getSnapshot,
+		toPrometheus() {
+			const snapshot = getSnapshot();
+			const lines: string[] = [];
+			const counterHelp: Array<[keyof typeof counters, string, string]> = [
+				[
+					'attempts',
+					'attempts_total',
+					'Request attempts, including the first.',
+				],
+				['retries', 'retries_total', 'Retries scheduled.'],
+				[
+					'successesAfterRetry',
+					'successes_after_retry_total',
+					'Requests which succeeded after at least one retry.',
+				],
+				[
+					'giveUps',
+					'give_ups_total',
+					'Requests which were not retried any further.',
+				],
+			];
+			for (const [field, name, help] of counterHelp) {
+				lines.push(
+					`# HELP ${prefix}_${name} ${help}`,
+					`# TYPE ${prefix}_${name} counter`,
+				);
+				for (const { labels, value } of snapshot[field]) {
+					lines.push(`${prefix}_${name}${formatLabels(labels)} ${value}`);
+				}
+			}
+
+			const histogramHelp: Array<[keyof typeof histograms, string, string]> = [
+				[
+					'backoffDelay',
+					'backoff_delay_milliseconds',
+					'Backoff delay before each retry.',
+				],
+				[
+					'requestLatency',
+					'request_duration_milliseconds',
+					'Total request latency, including every retry.',
+				],
+			];
+			for (const [field, name, help] of histogramHelp) {
+				lines.push(
+					`# HELP ${prefix}_${name} ${help}`,
+					`# TYPE ${prefix}_${name} histogram`,
+				);
+				for (const { labels, buckets, sum, count } of snapshot[field]) {
+					for (const { le, count: bucketCount } of buckets) {
+						lines.push(
+							`${prefix}_${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${bucketCount}`,
+						);
+					}
+
+					lines.push(
+						`${prefix}_${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+						`${prefix}_${name}_sum${formatLabels(labels)} ${sum}`,
+						`${prefix}_${name}_count${formatLabels(labels)} ${count}`,
+					);
+				}
+			}
+
+			return `${lines.join('\n')}\n`;
+		},
+	};
+}
+
+/**
+ * Format labels for the Prometheus text exposition format.
+ * @param labels The labels to format.
+ */
+function formatLabels(labels: RetryMetricLabels & { le?: string }) {
+	const pairs = Object.entries(labels)
+		.filter(([, value]) => value !== undefined)
+		.map(([name, value]) => {
+			const escaped = String(value)
+				.replaceAll('\\', '\\\\')
+				.replaceAll('"', '\\"')
+				.replaceAll('\n', '\\n');
+			return `${name}="${escaped}"`;
+		});
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Get the labels used to break down the metrics of a request.
+ * @param config The request config.
+ * @param status The status code, or error code, of the outcome.
+ */
+function getMetricLabels(
+	config: AxiosRequestConfig | undefined,
+	status: string | number | undefined,
+): RetryMetricLabels {
+	let host = '';
+	try {
+		host = new URL(config?.url ?? '', config?.baseURL).host;
+	} catch {}
+
+	return {
+		method: config?.method?.toUpperCase() ?? 'GET',
+		host,
+		status: String(status ?? 'unknown'),
+	};
+}
+
+/**
+ * Get the time in milliseconds since the first attempt of a request.
+ * @param config The retry config of the request.
+ */
+function getLatency(config: RetryConfig | undefined) {
+	return config?.startTime === undefined
+		? 0
+		: getTime(config) - config.startTime;
+}
+
+/**
+ * The rate limit quota of an origin, as reported by its response headers.
+ */
+export interface RateLimitState {
+	/**
+	 * The maximum number of requests allowed in the current window.
+	 */
+	limit?: number;
+
+	/**
+	 * The number of requests remaining in the current window.
+	 */
+	remaining: number;
+
+	/**
+	 * The time (in ms since the epoch) at which the quota resets.
+	 */
+	reset: number;
+}
+
+/**
+ * Options for a rate limiter.
+ */
+export interface RateLimiterOptions {
+	/**
+	 * The longest (in ms) a request is held while waiting for the quota to
+	 * reset. Requests are sent right away when the reset is further away.
+	 * Defaults to 5 mins.
+	 */
+	maxWait?: number;
+
+	/**
+	 * Function which returns the current time (in ms since the epoch). Defaults
+	 * to `Date.now`.
+	 */
+	clock?: () => number;
+}
+
+/**
+ * A rate limiter which tracks the quota of each origin.
+ */
+export interface RateLimiter {
+	/**
+	 * Update the quota of an origin from the headers of a response.
+	 */
+	update(origin: string, headers: AxiosResponse['headers'] | undefined): void;
+
+	/**
+	 * Take a request from the quota of an origin.
+	 * @returns The time (in ms) to hold the request before sending it.
+	 */
+	acquire(origin: string): number;
+
+	/**
+	 * Read the quota of an origin.
+	 */
+	getState(origin: string): RateLimitState | undefined;
+
+	/**
+	 * Read the quota of every origin, keyed by origin.
+	 */
+	getStates(): Record<string, RateLimitState>;
+}
+
+/**
+ * Read a numeric rate limit header, preferring the standard `RateLimit-*`
+ * header over its `X-RateLimit-*` variant.
+ * @param headers The response headers.
+ * @param name The header name without prefix, e.g. 'remaining'.
+ */
+function getRateLimitHeader(
+	headers: AxiosResponse['headers'],
+	name: string,
+): number | undefined {
+	const value = headers[`ratelimit-${name}`] ?? headers[`x-ratelimit-${name}`];
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+
+	const number_ = Number(value);
+	return Number.isNaN(number_) ? undefined : number_;
+}
+
+/**
+ * Create a rate limiter which can be passed to `attach`. The quota of each
+ * origin is read from the `RateLimit-Limit`, `RateLimit-Remaining` and
+ * `RateLimit-Reset` headers, or their `X-RateLimit-*` variants. The reset
+ * may be given in seconds from now, or as a unix timestamp.
+ * @param options The options for the rate limiter.
+ * @returns A rate limiter.
+ */
+export function createRateLimiter(
+	options: RateLimiterOptions = {},
+): RateLimiter {
+	const maxWait =
+		typeof options.maxWait === 'number' ? options.maxWait : 60_000 * 5;
+	const clock = options.clock || Date.now;
+	const quotas = new Map<string, RateLimitState>();
+	return {
+		update(origin, headers) {
+			if (!headers) {
+				return;
+			}
+
+			const remaining = getRateLimitHeader(headers, 'remaining');
+			const reset = getRateLimitHeader(headers, 'reset');
+			if (remaining === undefined || reset === undefined) {
+				return;
+			}
+
+			const now = clock();
+			const state: RateLimitState = {
+				remaining,
+				// Tell timestamps in ms or seconds apart from delays in seconds
+				reset:
+					reset > 1e12
+						? reset
+						: reset > 1e9
+							? reset * 1000
+							: now + reset * 1000,
+			};
+			const limit = getRateLimitHeader(headers, 'limit');
+			if (limit !== undefined) {
+				state.limit = limit;
+			}
+
+			quotas.set(origin, state);
+		},
+		acquire(origin) {
+			const state = quotas.get(origin);
+			if (!state) {
+				return 0;
+			}
+
+			const wait = state.reset - clock();
+			if (wait <= 0) {
+				// The window has passed, so the quota is unknown until the next
+				// response tells us.
+				quotas.delete(origin);
+				return 0;
+			}
+
+			if (state.remaining > 0) {
+				// Count the request against the quota, so a burst of requests
+				// doesn't overrun it before the responses arrive.
+				state.remaining--;
+				return 0;
+			}
+
+			return wait <= maxWait ? wait : 0;
+		},
+		getState(origin) {
+			const state = quotas.get(origin);
+			return state && { ...state };
+		},
+		getStates() {
+			return Object.fromEntries(
+				[...quotas].map(([origin, state]) => [origin, { ...state }]),
+			);
+		},
+	};
+}
+
+/**
+ * Tells whether the device is online, and when that changes.
+ */
+export interface ConnectivityProvider {
+	/**
+	 * Whether the device is online.
+	 */
+	isOnline(): boolean | Promise<boolean>;
+
+	/**
+	 * Add a listener which is called when the device goes online or offline.
+	 * @returns A function which removes the listener.
+	 */
+	onChange(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * The parts of a browser `window` used to track connectivity.
+ */
+export interface ConnectivityTarget {
+	navigator?: { onLine?: boolean };
+	addEventListener?(type: string, listener: () => void): void;
+	removeEventListener?(type: string, listener: () => void): void;
+}
+
+/**
+ * Create a connectivity provider for browsers, which reads
+ * `navigator.onLine` and listens for `online` and `offline` events. Outside
+ * of a browser, the device is always reported online.
+ * @param target The object to read `navigator` from and listen on. Defaults
+ * to `globalThis`.
+ * @returns A connectivity provider.
+ */
+export function createBrowserConnectivity(
+	target: ConnectivityTarget = globalThis as ConnectivityTarget,
+): ConnectivityProvider {
+	return {
+		isOnline() {
+			return target.navigator?.onLine ?? true;
+		},
+		onChange(listener) {
+			const onOnline = () => listener(true);
+			const onOffline = () => listener(false);
+			target.addEventListener?.('online', onOnline);
+			target.addEventListener?.('offline', onOffline);
+			return () => {
+				target.removeEventListener?.('online', onOnline);
+				target.removeEventListener?.('offline', onOffline);
+			};
+		},
+	};
+}
+
+/**
+ * Options for a connectivity provider which probes the network.
+ */
+export interface ProbeConnectivityOptions {
+	/**
+	 * Function which checks whether the network can be reached, for example by
+	 * resolving a host name or calling a health check endpoint. Rejections
+	 * count as offline.
+	 */
+	probe: () => Promise<boolean>;
+
+	/**
+	 * How often (in ms) to probe while offline and a request is waiting, to
+	 * find out when the device is back online. Defaults to 5 seconds.
+	 */
+	interval?: number;
+}
+
+/**
+ * Create a connectivity provider which runs an async probe, for runtimes
+ * without `navigator.onLine` like Node.js. The probe runs each time the
+ * interceptor checks the connectivity, and every `interval` while offline and
+ * a request is waiting.
+ * @param options The options for the connectivity provider.
+ * @returns A connectivity provider.
+ */
+export function createProbeConnectivity(
+	options: ProbeConnectivityOptions,
+): ConnectivityProvider {
+	const interval =
+		typeof options.interval === 'number' ? options.interval : 5000;
+	const listeners = new Set<(online: boolean) => void>();
+	let online = true;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	// Keep probing while offline, for as long as someone is listening
+	function schedule() {
+		if (timer === undefined && !online && listeners.size > 0) {
+			timer = setTimeout(() => {
+				timer = undefined;
+				void check();
+			}, interval);
+		}
+	}
+
+	async function check() {
+		const result = await options.probe().then(
+			(value) => value,
+			() => false,
+		);
+		if (result !== online) {
+			online = result;
+			for (const listener of [...listeners]) {
+				listener(online);
+			}
+		}
+
+		schedule();
+		return online;
+	}
+
+	return {
+		isOnline: check,
+		onChange(listener) {
+			listeners.add(listener);
+			schedule();
+			return () => {
+				listeners.delete(listener);
+				if (listeners.size === 0) {
+					clearTimeout(timer);
+					timer = undefined;
+				}
+			};
+		},
+	};
+}
+
+// Name of the span recorded for each retry when tracing is enabled.
+const retrySpanName = 'retry-axios retry';
+
+// Code of the errors created for responses rejected by `shouldRetryResponse`.
+const retryableResponseCode = 'ERR_RETRYABLE_RESPONSE';
+
+// Methods which are only retried when they carry an idempotency key.
+const idempotentKeyMethods = ['POST', 'PATCH'];
+
+// Instance defaults taken out of the Axios config merge by `attach`, so they
+// can be merged under the matching rule.
+const ruleDefaults = new WeakMap<AxiosInstance, RetryConfig>();
+
+// Request interceptors attached alongside each retry interceptor, so they can
+// be ejected together in `detach`.
+const requestInterceptorIds = new WeakMap<AxiosInstance, Map<number, number>>();
+
+/**
+ * Attach the interceptor to the Axios instance.
+ * @param instance The optional Axios instance on which to attach the
+ * interceptor.
+ * @param options Options that apply to every request made through the
+ * instance.
+ * @returns The id of the interceptor attached to the axios instance.
+ */
+export function attach(instance?: AxiosInstance, options: AttachOptions = {}) {
+	const inst = instance || axios;
+	const { configValidation = 'throw' } = options;
+	if (configValidation !== 'off') {
+		for (const config of [
+			inst.defaults.raxConfig,
+			...(options.rules ?? []).map((rule) => rule.config),
+		]) {
+			if (config) {
+				validateConfig(config, configValidation);
+			}
+		}
+	}
+
+	// Without a free slot or a timeout, queued retries would wait forever
+	const problems: string[] = [];
+	const show = (value: unknown) =>
+		typeof value === 'string' ? `'${value}'` : String(value);
+	if (
+		options.maxConcurrentRetries !== undefined &&
+		!(
+			Number.isInteger(options.maxConcurrentRetries) &&
+			options.maxConcurrentRetries > 0
+		)
+	) {
+		problems.push(
+			`maxConcurrentRetries must be a positive integer, got ${show(options.maxConcurrentRetries)}`,
+		);
+	}
+
+	if (
+		options.retryQueueTimeout !== undefined &&
+		!(
+			Number.isFinite(options.retryQueueTimeout) &&
+			options.retryQueueTimeout >= 0
+		)
+	) {
+		problems.push(
+			`retryQueueTimeout must be a non-negative number, got ${show(options.retryQueueTimeout)}`,
+		);
+	}
+
+	if (problems.length > 0) {
+		throw new RetryConfigError(problems);
+	}
+
+	// Axios would merge the instance defaults into the raxConfig of each
+	// request, after which a rule can't tell them apart from settings of the
+	// request. Merge them in `onRequest` instead.
+	if (options.rules && inst.defaults.raxConfig) {
+		ruleDefaults.set(inst, inst.defaults.raxConfig);
+		delete inst.defaults.raxConfig;
+	}
+
+	const retryQueue =
+		typeof options.maxConcurrentRetries === 'number'
+			? createRetryQueue(options.maxConcurrentRetries)
+			: undefined;
+	const requestInterceptorId = inst.interceptors.request.use(async (config) => {
+		try {
+			return await onRequest(config, options, ruleDefaults.get(inst));
+		} catch (error) {
+			// The error may not carry the config, so free the slot of a
+			// retry that won't be sent here.
+			releaseRetrySlot(config.raxConfig);
+			throw error;
+		}
+	});
+	const interceptorId = inst.interceptors.response.use(
+		async (result: AxiosResponse) =>
+			onFulfilled(inst, result, options, retryQueue),
+		async (error: AxiosError) => onError(inst, error, options, retryQueue),
+	);
+	let ids = requestInterceptorIds.get(inst);
+	if (!ids) {
+		ids = new Map();
+		requestInterceptorIds.set(inst, ids);
+	}
+
+	ids.set(interceptorId, requestInterceptorId);
+	return interceptorId;
+}
+
+/**
+ * Eject the Axios interceptor that is providing retry capabilities.
+ * @param interceptorId The interceptorId provided in the config.
+ * @param instance The axios instance using this interceptor.
+ */
+export function detach(interceptorId: number, instance?: AxiosInstance) {
+	const inst = instance || axios;
+	inst.interceptors.response.eject(interceptorId);
+	const ids = requestInterceptorIds.get(inst);
+	const requestInterceptorId = ids?.get(interceptorId);
+	if (requestInterceptorId !== undefined) {
+		inst.interceptors.request.eject(requestInterceptorId);
+		ids?.delete(interceptorId);
+	}
+
+	// Hand the instance defaults back to Axios
+	const defaults = ruleDefaults.get(inst);
+	if (defaults) {
+		inst.defaults.raxConfig ??= defaults;
+		ruleDefaults.delete(inst);
+	}
+}
+
+/**
+ * Call `fetch`, retrying failed requests with the same rules as the Axios
+ * interceptor: status code ranges, methods, error codes, Retry-After, backoff
+ * and jitter. Failed attempts are recorded as `AxiosError`s in `errors`, so
+ * `shouldRetry`, `onError` and `onRetryAttempt` work the same way too.
+ * Responses are returned once they succeed or can't be retried, like `fetch`
+ * does, and network errors are thrown as they come from `fetch`.
+ * @param input The resource to fetch.
+ * @param init Options for the request.
+ * @param retryConfig Options for retrying the request.
+ */
+export async function retryFetch(
+	input: string | URL | Request,
+	init: RequestInit = {},
+	retryConfig: RetryConfig = {},
+): Promise<Response> {
+	validateConfig(retryConfig);
+	const raxConfig: RetryConfig = { ...retryConfig };
+	setConfigDefaults(raxConfig);
+	const errors: AxiosError[] = [];
+	setConfigMetadata(raxConfig, errors);
+
+	// The retry engine works with Axios errors, so describe the request as one
+	const config = {
+		url: input instanceof Request ? input.url : String(input),
+		method: (
+			init.method ?? (input instanceof Request ? input.method : 'GET')
+		).toLowerCase(),
+		headers: new AxiosHeaders(),
+		data: init.body,
+		raxConfig,
+	} as InternalAxiosRequestConfig;
+	const signal =
+		init.signal ?? (input instanceof Request ? input.signal : undefined);
+	if (signal) {
+		config.signal = signal;
+	}
+
+	for (;;) {
+		let response: Response | undefined;
+		let error: AxiosError;
+		try {
+			response = await fetch(
+				input instanceof Request ? input.clone() : input,
+				init,
+			);
+			if (response.ok) {
+				return response;
+			}
+
+			error = new AxiosError(
+				`Request failed with status code ${response.status}`,
+				response.status >= 500
+					? AxiosError.ERR_BAD_RESPONSE
+					: AxiosError.ERR_BAD_REQUEST,
+				config,
+				undefined,
+				{
+					data: undefined,
+					status: response.status,
+					statusText: response.statusText,
+					headers: Object.fromEntries(response.headers),
+					config,
+				},
+			);
+		} catch (fetchError) {
+			if (signal?.aborted) {
+				throw fetchError;
+			}
+
+			// Node.js puts the network error code on the cause
+			const { code, cause } = fetchError as {
+				code?: unknown;
+				cause?: { code?: unknown };
+			};
+			const errorCode = typeof code === 'string' ? code : cause?.code;
+			error = new AxiosError(
+				(fetchError as Error).message,
+				typeof errorCode === 'string' ? errorCode : AxiosError.ERR_NETWORK,
+				config,
+			);
+			error.cause = fetchError as Error;
+		}
+
+		errors.push(error);
+		const attempt = (raxConfig.currentRetryAttempt ?? 0) + 1;
+		const decision = getRetryDecision(error, raxConfig);
+		const retryDelay = decision.retry
+			? getRetryDelay(error, raxConfig, attempt)
+			: decision;
+		if (!retryDelay.retry) {
+			if (response) {
+				return response;
+			}
+
+			throw error.cause;
+		}
+
+		raxConfig.currentRetryAttempt = attempt;
+		// biome-ignore lint/style/noNonNullAssertion: Set by setConfigDefaults
+		raxConfig.retriesRemaining = raxConfig.retry! - attempt;
+		raxConfig.lastDelay = retryDelay.delay;
+		raxConfig.totalDelay = (raxConfig.totalDelay ?? 0) + retryDelay.delay;
+		await raxConfig.onError?.(error);
+		await response?.body?.cancel();
+		try {
+			await wait(retryDelay.delay, config);
+		} catch (waitError) {
+			// Throw the same error as `fetch` does for an aborted request
+			if (signal?.aborted) {
+				throw signal.reason;
+			}
+
+			throw waitError;
+		}
+
+		await raxConfig.onRetryAttempt?.(error);
+	}
+}
+
+async function onRequest(
+	config: InternalAxiosRequestConfig,
+	options: AttachOptions,
+	defaults: RetryConfig | undefined,
+) {
+	// Instance defaults < matching rule < the request's own settings
+	const rule = options.rules && findRule(options.rules, config);
+	if (defaults || rule) {
+		config.raxConfig = {
+			...defaults,
+			...rule?.config,
+			...config.raxConfig,
+		};
+		if (rule) {
+			config.raxConfig.ruleName = rule.name;
+		}
+	}
+
+	config.raxConfig ??= {};
+	const raxConfig = config.raxConfig;
+	const { configValidation = 'throw' } = options;
+	if (configValidation !== 'off' && !raxConfig.currentRetryAttempt) {
+		validateConfig(raxConfig, configValidation);
+	}
+
+	raxConfig.startTime ??= getTime(raxConfig);
+
+	// Generate the idempotency key on the first attempt, and send the same key
+	// with every retry.
+	if (
+		raxConfig.useIdempotencyKey &&
+		idempotentKeyMethods.includes(config.method?.toUpperCase() ?? '')
+	) {
+		const header = raxConfig.idempotencyKeyHeader || 'Idempotency-Key';
+		const existingKey = config.headers.get(header);
+		raxConfig.idempotencyKey ??=
+			typeof existingKey === 'string'
+				? existingKey
+				: typeof raxConfig.useIdempotencyKey === 'function'
+					? raxConfig.useIdempotencyKey(config)
+					: globalThis.crypto.randomUUID();
+		config.headers.set(header, raxConfig.idempotencyKey);
+	}
+
+	// Hold the request while the quota of the origin has run out
+	const { rateLimiter } = options;
+	if (rateLimiter) {
+		const delay = rateLimiter.acquire(getOrigin(config));
+		if (delay > 0) {
+			await wait(delay, config);
+		}
+	}
+
+	// Make sure a body which can only be read once can be sent again
+	if (raxConfig.bodyFactory) {
+		config.data = await raxConfig.bodyFactory(config);
+	} else if (
+		raxConfig.nonReplayableBody === 'buffer' &&
+		isBufferableBody(config.data)
+	) {
+		const maxBufferSize =
+			typeof raxConfig.maxBufferSize === 'number'
+				? raxConfig.maxBufferSize
+				: 1024 * 1024;
+		config.data = await bufferBody(config.data, maxBufferSize);
+	}
+
+	// Record the attempt once nothing holds it back from being sent. Requests
+	// sent again after failing offline didn't wait out a backoff delay.
+	const history = raxConfig.attemptHistory ?? [];
+	raxConfig.attemptHistory = [
+		...history,
+		{
+			startTime: getTime(raxConfig),
+			delay:
+				raxConfig.currentRetryAttempt && !history.at(-1)?.offline
+					? (raxConfig.lastDelay ?? 0)
+					: 0,
+		},
+	];
+
+	// Never let an attempt run past the overall deadline
+	if (typeof raxConfig.totalTimeout === 'number') {
+		const timeLeft = Math.max(getDeadline(raxConfig) - getTime(raxConfig), 1);
+		config.timeout = config.timeout
+			? Math.min(config.timeout, timeLeft)
+			: timeLeft;
+	}
+
+	// Send the request through an adapter which hedges stalled attempts
+	if (
+		typeof raxConfig.hedgeDelay === 'number' &&
+		!isNonReplayableBody(config.data) &&
+		(normalizeArray(raxConfig.httpMethodsToRetry) || retryMethods).includes(
+			config.method?.toUpperCase() ?? '',
+		)
+	) {
+		const adapter = axios.getAdapter(config.adapter ?? axios.defaults.adapter);
+		if (!hedgingAdapters.has(adapter)) {
+			config.adapter = createHedgingAdapter(adapter);
+		}
+	}
+
+	const { circuitBreaker } = options;
+	if (circuitBreaker) {
+		const key = circuitBreaker.getKey(config);
+		if (!circuitBreaker.allowRequest(key)) {
+			throw new CircuitOpenError(key, circuitBreaker.getState(key).lastError);
+		}
+	}
+
+	return config;
+}
+
+async function onFulfilled(
+	instance: AxiosInstance,
+	result: AxiosResponse,
+	options: AttachOptions,
+	retryQueue: RetryQueue | undefined,
+) {
+	releaseRetrySlot(result.config?.raxConfig);
+	options.retryBudget?.recordSuccess();
+	options.rateLimiter?.update(getOrigin(result.config ?? {}), result.headers);
+	recordAttemptOutcome(result.config?.raxConfig, result.status);
+	options.metrics?.recordAttempt(getMetricLabels(result.config, result.status));
+	const { circuitBreaker } = options;
+	if (circuitBreaker && result.config) {
+		circuitBreaker.recordSuccess(circuitBreaker.getKey(result.config));
+	}
+
+	// Send responses the user wants retried down the same path as errors
+	if (result.config?.raxConfig?.shouldRetryResponse?.(result)) {
+		const error = new AxiosError(
+			'Response rejected by shouldRetryResponse',
+			retryableResponseCode,
+			result.config,
+			result.request,
+			result,
+		);
+		try {
+			return await onError(instance, error, options, retryQueue);
+		} catch (error_) {
+			// Out of retries, so hand back the last response
+			if (error_ === error) {
+				return result;
+			}
+
+			throw error_;
+		}
+	}
+
+	const raxConfig = result.config?.raxConfig;
+	options.metrics?.recordSuccess(
+		getMetricLabels(result.config, result.status),
+		raxConfig?.currentRetryAttempt ?? 0,
+		getLatency(raxConfig),
+	);
+	if (raxConfig?.currentRetryAttempt) {
+		options.events?.emit('retrySucceeded', {
+			response: result,
+			config: raxConfig,
+			attempts: raxConfig.currentRetryAttempt + 1,
+			totalDelay: raxConfig.totalDelay ?? 0,
+		});
+	}
+
+	return result;
+}
+
+/**
+ * Some versions of axios are converting arrays into objects during retries.
+ * This will attempt to convert an object with the following structure into
+ * an array, where the keys correspond to the indices:
+ * {
+ *   0: {
+ *     // some property
+ *   },
+ *   1: {
+ *     // another
+ *   }
+ * }
+ * @param obj The object that (may) have integers that correspond to an index
+ * @returns An array with the pucked values
+ */
+function normalizeArray<T>(object?: T[]): T[] | undefined {
+	const array: T[] = [];
+	if (!object) {
+		return undefined;
+	}
+
+	if (Array.isArray(object)) {
+		return object;
+	}
+
+	if (typeof object === 'object') {
+		for (const key of Object.keys(object)) {
+			const number_ = Number.parseInt(key, 10);
+			if (!Number.isNaN(number_)) {
+				array[number_] = object[key];
+			}
+		}
+	}
+
+	return array;
+}
+
+function setConfigMetadata(config: RetryConfig, errors: AxiosError[]) {
+	config.errors = errors;
+	Object.defineProperty(config, 'toJSON', {
+		value(this: RetryConfig) {
+			const { errors: _errors, ...serializedConfig } = this;
+			return serializedConfig;
+		},
+		writable: true,
+		configurable: true,
+		enumerable: false,
+	});
+}
+
+/**
+ * Get the time (in ms since the epoch) after which no more retries are made.
+ * @param config The retry config with `totalTimeout` set.
+ */
+function getDeadline(config: RetryConfig) {
+	return (config.startTime ?? getTime(config)) + (config.totalTimeout ?? 0);
+}
+
+/**
+ * Get the time (in ms) left before the `totalTimeout` deadline.
+ * @param config The retry config.
+ * @returns The time left, or undefined if there is no deadline.
+ */
+function getTimeLeft(config: RetryConfig) {
+	return typeof config.totalTimeout === 'number'
+		? getDeadline(config) - getTime(config)
+		: undefined;
+}
+
+/**
+ * Create the error a request is rejected with when it runs out of time.
+ * @param error The last error encountered before the deadline.
+ */
+function deadlineExceeded(error: AxiosError) {
+	const deadlineError = new AxiosError(
+		`Retry deadline exceeded: ${error.message}`,
+		'ERR_DEADLINE_EXCEEDED',
+		error.config,
+		error.request,
+		error.response,
+	);
+	deadlineError.cause = error;
+	return deadlineError;
+}
+
+/**
+ * Create the error a request is rejected with when its retry waits too long
+ * for a free slot.
+ * @param error The error that triggered the retry.
+ */
+function retryQueueTimeout(error: AxiosError) {
+	const timeoutError = new AxiosError(
+		`Retry queue timeout exceeded: ${error.message}`,
+		'ERR_RETRY_QUEUE_TIMEOUT',
+		error.config,
+		error.request,
+		error.response,
+	);
+	timeoutError.cause = error;
+	return timeoutError;
+}
+
+/**
+ * A queue which limits how many retries are in flight at once.
+ */
+interface RetryQueue {
+	/**
+	 * Whether every slot is taken, so new retries have to wait.
+	 */
+	readonly isFull: boolean;
+
+	/**
+	 * The number of retries waiting for a slot.
+	 */
+	readonly depth: number;
+
+	/**
+	 * Take a slot, waiting behind retries with the same or a higher priority
+	 * when none is free. Waiting stops when the signal is aborted.
+	 */
+	acquire(priority: number, signal: AbortSignal): Promise<void>;
+
+	/**
+	 * Free a slot, handing it to the next waiting retry.
+	 */
+	release(): void;
+}
+
+/**
+ * Create a queue with a fixed number of retry slots.
+ * @param maxConcurrent The number of slots.
+ */
+function createRetryQueue(maxConcurrent: number): RetryQueue {
+	let active = 0;
+	const waiting: Array<{ priority: number; grant: () => void }> = [];
+	return {
+		get isFull() {
+			return active >= maxConcurrent;
+		},
+		get depth() {
+			return waiting.length;
+		},
+		async acquire(priority, signal) {
+			if (active < maxConcurrent) {
+				active++;
+				return;
+			}
+
+			return new Promise<void>((resolve) => {
+				const entry = { priority, grant: resolve };
+				const index = waiting.findIndex((other) => other.priority < priority);
+				waiting.splice(index === -1 ? waiting.length : index, 0, entry);
+				signal.addEventListener(
+					'abort',
+					() => {
+						const position = waiting.indexOf(entry);
+						if (position !== -1) {
+							waiting.splice(position, 1);
+						}
+					},
+					{ once: true },
+				);
+			});
+		},
+		release() {
+			const next = waiting.shift();
+			if (next) {
+				next.grant();
+			} else {
+				active = Math.max(active - 1, 0);
+			}
+		},
+	};
+}
+
+// Slots held by retries, keyed by the error which triggered each retry
+const retrySlots = new WeakMap<AxiosError, RetryQueue>();
+
+/**
+ * Free the slot held by an attempt, if it is a queued retry. Safe to call
+ * more than once for the same attempt.
+ * @param config The retry config of the attempt.
+ */
+function releaseRetrySlot(config: RetryConfig | undefined) {
+	const trigger = config?.errors?.at(-1);
+	const retryQueue = trigger && retrySlots.get(trigger);
+	if (trigger && retryQueue) {
+		retrySlots.delete(trigger);
+		retryQueue.release();
+	}
+}
+
+/**
+ * Wait for a free slot in a retry queue. Stops waiting, and rejects with a
+ * cancellation error, as soon as the request is aborted through its `signal`
+ * or `cancelToken`.
+ * @param retryQueue The queue to take a slot from.
+ * @param priority The priority of the retry.
+ * @param timeout The longest (in ms) to wait, or undefined to wait for as long
+ * as it takes.
+ * @param config The config of the request to send.
+ * @returns Whether a slot was taken before the timeout.
+ */
+async function waitForRetrySlot(
+	retryQueue: RetryQueue,
+	priority: number,
+	timeout: number | undefined,
+	config: InternalAxiosRequestConfig | undefined,
+) {
+	const sleep = config?.raxConfig?.sleep ?? defaultSleep;
+	return cancelableWait<boolean>(config, (resolve, _reject, signal) => {
+		retryQueue.acquire(priority, signal).then(() => {
+			// Hand back a slot granted after the wait was given up
+			if (signal.aborted) {
+				retryQueue.release();
+				return;
+			}
+
+			resolve(true);
+		});
+		if (timeout !== undefined) {
+			sleep(timeout, signal).then(
+				() => resolve(false),
+				() => {},
+			);
+		}
+	});
+}
+
+/**
+ * Wait out a delay with `setTimeout`, stopping early when the signal is
+ * aborted.
+ * @param delay The delay in milliseconds.
+ * @param signal Signal which is aborted when the wait is no longer needed.
+ */
+async function defaultSleep(delay: number, signal: AbortSignal) {
+	return new Promise<void>((resolve) => {
+		const timer = setTimeout(resolve, delay);
+		signal.addEventListener('abort', () => clearTimeout(timer), {
+			once: true,
+		});
+	});
+}
+
+/**
+ * Wait on behalf of a request. Stops waiting, and rejects with a cancellation
+ * error, as soon as the request is aborted through its `signal` or
+ * `cancelToken`.
+ * @param config The config of the request.
+ * @param start Function which starts the wait. It is given a signal which is
+ * aborted once the wait is over, so it can clean up.
+ */
+async function cancelableWait<T>(
+	config: InternalAxiosRequestConfig | undefined,
+	start: (
+		resolve: (value: T) => void,
+		reject: (error: unknown) => void,
+		signal: AbortSignal,
+	) => void,
+) {
+	const { signal, cancelToken } = config ?? {};
+	const controller = new AbortController();
+	return new Promise<T>((resolve, reject) => {
+		const settle = () => {
+			controller.abort();
+			signal?.removeEventListener?.('abort', onAbort);
+		};
+
+		const onAbort = () => {
+			settle();
+			const canceledError = new CanceledError();
+			if (config) {
+				canceledError.config = config;
+			}
+
+			reject(canceledError);
+		};
+
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+
+		signal?.addEventListener?.('abort', onAbort, { once: true });
+		cancelToken?.promise.then((cancel) => {
+			if (!controller.signal.aborted) {
+				settle();
+				reject(cancel);
+			}
+		});
+		start(
+			(value) => {
+				if (!controller.signal.aborted) {
+					settle();
+					resolve(value);
+				}
+			},
+			(error) => {
+				if (!controller.signal.aborted) {
+					settle();
+					reject(error);
+				}
+			},
+			controller.signal,
+		);
+	});
+}
+
+/**
+ * Wait before sending a request, with the `sleep` function of its retry
+ * config. Stops waiting, and rejects with a cancellation error, as soon as the
+ * request is aborted through its `signal` or `cancelToken`.
+ * @param delay The delay in milliseconds.
+ * @param config The config of the request to send.
+ */
+async function wait(
+	delay: number,
+	config: InternalAxiosRequestConfig | undefined,
+) {
+	const sleep = config?.raxConfig?.sleep ?? defaultSleep;
+	return cancelableWait<void>(config, (resolve, reject, signal) => {
+		sleep(delay, signal).then(resolve, reject);
+	});
+}
+
+/**
+ * Wait until a connectivity provider reports the device is online. Stops
+ * waiting, and rejects with a cancellation error, as soon as the request is
+ * aborted through its `signal` or `cancelToken`.
+ * @param connectivity The connectivity provider.
+ * @param config The config of the request to send.
+ * @param timeout The longest (in ms) to wait, or undefined to wait for as long
+ * as it takes.
+ * @returns Whether the device came online before the timeout.
+ */
+async function waitForOnline(
+	connectivity: ConnectivityProvider,
+	config: InternalAxiosRequestConfig | undefined,
+	timeout: number | undefined,
+) {
+	const sleep = config?.raxConfig?.sleep ?? defaultSleep;
+	return cancelableWait<boolean>(config, (resolve, reject, signal) => {
+		const removeListener = connectivity.onChange((online) => {
+			if (online) {
+				resolve(true);
+			}
+		});
+		signal.addEventListener('abort', removeListener, { once: true });
+		Promise.resolve(connectivity.isOnline()).then((online) => {
+			if (online) {
+				resolve(true);
+			}
+		}, reject);
+		if (timeout !== undefined) {
+			sleep(Math.max(timeout, 0), signal).then(
+				() => resolve(false),
+				() => {},
+			);
+		}
+	});
+}
+
+/**
+ * Wait out a backoff delay with the `sleep` function of the retry config,
+ * pausing the countdown while a connectivity provider reports the device is
+ * offline.
+ * @param delay The delay in milliseconds.
+ * @param config The config of the request to send.
+ * @param connectivity The connectivity provider.
+ * @param timeout The longest (in ms) to wait, or undefined to wait for as long
+ * as it takes to come back online.
+ * @returns Whether the delay was waited out before the timeout.
+ */
+async function waitWhileOnline(
+	delay: number,
+	config: InternalAxiosRequestConfig | undefined,
+	connectivity: ConnectivityProvider,
+	timeout: number | undefined,
+) {
+	const raxConfig = config?.raxConfig;
+	const sleep = raxConfig?.sleep ?? defaultSleep;
+	const deadline =
+		timeout === undefined ? undefined : getTime(raxConfig) + timeout;
+	let remaining = delay;
+	for (;;) {
+		const online = await waitForOnline(
+			connectivity,
+			config,
+			deadline === undefined ? undefined : deadline - getTime(raxConfig),
+		);
+		if (!online) {
+			return false;
+		}
+
+		const start = getTime(raxConfig);
+		const offlineAt = await cancelableWait<number | undefined>(
+			config,
+			(resolve, reject, signal) => {
+				const removeListener = connectivity.onChange((online) => {
+					if (!online) {
+						resolve(getTime(raxConfig));
+					}
+				});
+				signal.addEventListener('abort', removeListener, { once: true });
+				sleep(remaining, signal).then(() => resolve(undefined), reject);
+			},
+		);
+		if (offlineAt === undefined) {
+			return true;
 		}
-		// Now apply the custom shouldRetry logic
-		if (!config.shouldRetry(axiosError)) {
-			throw axiosError;
+
+		remaining = Math.max(remaining - (offlineAt - start), 0);
+	}
+}
+
+/**
+ * Whether a request body can only be read once, like a Node.js `Readable` or
+ * a web `ReadableStream`.
+ * @param data The request body.
+ */
+function isNonReplayableBody(data: unknown) {
+	return (
+		(typeof data === 'object' &&
+			data !== null &&
+			typeof (data as NodeReadable).pipe === 'function') ||
+		(typeof ReadableStream !== 'undefined' && data instanceof ReadableStream)
+	);
+}
+
+/**
+ * Whether a body which can only be read once can be buffered: a web
+ * `ReadableStream`, or a Node.js `Readable`. Legacy streams with only `pipe`,
+ * like those of the `form-data` package, never emit 'readable', and carry
+ * headers of their own, so they are left as they are.
+ * @param data The request body.
+ */
+function isBufferableBody(data: unknown) {
+	return (
+		(typeof ReadableStream !== 'undefined' && data instanceof ReadableStream) ||
+		(isNonReplayableBody(data) &&
+			typeof (data as NodeReadable).read === 'function' &&
+			typeof (data as NodeReadable).unshift === 'function')
+	);
+}
+
+/**
+ * The subset of a Node.js `Readable` used to buffer request bodies.
+ */
+interface NodeReadable {
+	pipe: unknown;
+	read(): Uint8Array | string | null;
+	unshift(chunk: Uint8Array): void;
+	on(event: string, listener: (...args: unknown[]) => void): void;
+	off(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+/**
+ * Join chunks of a body into a single buffer.
+ * @param chunks The chunks of the body.
+ * @param size The total size of the chunks in bytes.
+ */
+function concatChunks(chunks: Uint8Array[], size: number) {
+	const body = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		body.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return body;
+}
+
+/**
+ * Read a body that can only be read once into memory, so it can be sent
+ * again. When the body is larger than `maxSize`, what was read is put back,
+ * and a body which sends the whole of it is returned instead.
+ * @param data A Node.js `Readable` or web `ReadableStream`.
+ * @param maxSize The largest body to buffer, in bytes.
+ */
+async function bufferBody(data: unknown, maxSize: number): Promise<unknown> {
+	const encoder = new TextEncoder();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	const add = (chunk: Uint8Array | string) => {
+		const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+		chunks.push(bytes);
+		size += bytes.length;
+		return size <= maxSize;
+	};
+
+	if (data instanceof ReadableStream) {
+		const reader = (data as ReadableStream<Uint8Array>).getReader();
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) {
+				return concatChunks(chunks, size).buffer;
+			}
+
+			if (!add(value)) {
+				// Send what was read, followed by the rest of the stream
+				return new ReadableStream<Uint8Array>({
+					start(controller) {
+						for (const chunk of chunks) {
+							controller.enqueue(chunk);
+						}
+					},
+					async pull(controller) {
+						const next = await reader.read();
+						if (next.done) {
+							controller.close();
+						} else {
+							controller.enqueue(next.value);
+						}
+					},
+					async cancel(reason) {
+						await reader.cancel(reason);
+					},
+				});
+			}
 		}
-	} else {
-		// Use the default shouldRetryRequest logic
-		if (!shouldRetryRequest(axiosError)) {
-			throw axiosError;
+	}
+
+	const stream = data as NodeReadable;
+	return new Promise((resolve, reject) => {
+		const cleanup = () => {
+			stream.off('readable', onReadable);
+			stream.off('end', onEnd);
+			stream.off('error', onError);
+		};
+
+		const onReadable = () => {
+			for (let chunk = stream.read(); chunk !== null; chunk = stream.read()) {
+				if (!add(chunk)) {
+					// Put back what was read, and send the stream as it is
+					cleanup();
+					stream.unshift(concatChunks(chunks, size));
+					resolve(stream);
+					return;
+				}
+			}
+		};
+
+		const onEnd = () => {
+			cleanup();
+			resolve(concatChunks(chunks, size).buffer);
+		};
+
+		const onError = (error: unknown) => {
+			cleanup();
+			reject(error);
+		};
+
+		stream.on('readable', onReadable);
+		stream.on('end', onEnd);
+		stream.on('error', onError);
+	});
+}
+
+// Adapters which hedge requests, so retries don't wrap them a second time
+const hedgingAdapters = new WeakSet<AxiosAdapter>();
+
+/**
+ * Wrap an adapter so that another copy of a request is sent each time
+ * `hedgeDelay` passes without a response, up to `maxHedges` extra copies. The
+ * first successful response wins, and the other copies are aborted through
+ * their `signal`. When every copy fails, the last error is rejected.
+ * @param adapter The adapter which sends each copy.
+ */
+function createHedgingAdapter(adapter: AxiosAdapter) {
+	const hedgingAdapter: AxiosAdapter = async (config) => {
+		const { signal } = config;
+		if (signal?.aborted) {
+			return adapter(config);
+		}
+
+		const raxConfig = config.raxConfig ?? {};
+		const hedgeDelay = raxConfig.hedgeDelay ?? 0;
+		const maxHedges =
+			typeof raxConfig.maxHedges === 'number' ? raxConfig.maxHedges : 1;
+		const sleep = raxConfig.sleep ?? defaultSleep;
+		return new Promise<AxiosResponse>((resolve, reject) => {
+			const controllers: AbortController[] = [];
+			let pending = 0;
+			let settled = false;
+			// Aborted to cancel the wait for the next copy
+			let hedgeTimer: AbortController | undefined;
+
+			const abortAll = (winner?: AbortController) => {
+				for (const controller of controllers) {
+					if (controller !== winner) {
+						controller.abort();
+					}
+				}
+			};
+
+			const settle = () => {
+				settled = true;
+				hedgeTimer?.abort();
+				signal?.removeEventListener?.('abort', onAbort);
+			};
+
+			const send = () => {
+				const controller = new AbortController();
+				controllers.push(controller);
+				pending++;
+				adapter({ ...config, signal: controller.signal }).then(
+					(response) => {
+						if (settled) {
+							return;
+						}
+
+						settle();
+						abortAll(controller);
+						response.config = config;
+						resolve(response);
+					},
+					(error: unknown) => {
+						pending--;
+						if (settled || pending > 0) {
+							return;
+						}
+
+						settle();
+						if (error instanceof AxiosError) {
+							error.config = config;
+						}
+
+						reject(error);
+					},
+				);
+				if (controllers.length <= maxHedges) {
+					const timer = new AbortController();
+					hedgeTimer = timer;
+					sleep(hedgeDelay, timer.signal).then(
+						() => {
+							if (!timer.signal.aborted) {
+								send();
+							}
+						},
+						() => {},
+					);
+				}
+			};
+
+			const onAbort = () => {
+				abortAll();
+			};
+
+			signal?.addEventListener?.('abort', onAbort, { once: true });
+			send();
+		});
+	};
+
+	hedgingAdapters.add(hedgingAdapter);
+	return hedgingAdapter;
+}
+
+/**
+ * Parse the Retry-After header.
+ * https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+ * @param header Retry-After header value
+ * @param now The current time (in ms since the epoch) to measure dates against
+ * @returns Number of milliseconds, or undefined if invalid
+ */
+function parseRetryAfter(header: string, now: number): number | undefined {
+	// Header value may be string containing integer seconds
+	const value = Number(header);
+	if (!Number.isNaN(value)) {
+		return value * 1000;
+	}
+
+	// Or HTTP date time string
+	const dateTime = Date.parse(header);
+	if (!Number.isNaN(dateTime)) {
+		return dateTime - now;
+	}
+
+	return undefined;
+}
+
+async function onError(
+	instance: AxiosInstance,
+	error: AxiosError,
+	options: AttachOptions,
+	retryQueue: RetryQueue | undefined,
+) {
+	releaseRetrySlot(getConfig(error));
+	if (
+		isCancel(error) ||
+		error instanceof CircuitOpenError ||
+		error instanceof RetryConfigError
+	) {
+		throw error;
+	}
+
+	// Responses rejected by `shouldRetryResponse` were counted when they
+	// arrived.
+	const metricLabels = getMetricLabels(
+		error.config,
+		error.response?.status ?? error.code,
+	);
+	if (error.code !== retryableResponseCode) {
+		recordAttemptOutcome(
+			getConfig(error),
+			error.response?.status,
+			error.response ? undefined : error.code,
+		);
+		options.metrics?.recordAttempt(metricLabels);
+		if (error.response) {
+			options.rateLimiter?.update(
+				getOrigin(error.config ?? {}),
+				error.response.headers,
+			);
 		}
 	}
 
-	// Create a promise that invokes the retry after the backOffDelay
-	const onBackoffPromise = new Promise((resolve, reject) => {
-		let delay = 0;
-		// If enabled, check for 'Retry-After' header in response to use as delay
-		if (
-			config.checkRetryAfter &&
-			axiosError.response?.headers?.['retry-after']
-		) {
-			const retryAfter = parseRetryAfter(
-				axiosError.response.headers['retry-after'] as string,
+	// Record the error on the circuit before deciding whether to retry
+	const { circuitBreaker } = options;
+	const circuitKey = error.config && circuitBreaker?.getKey(error.config);
+	if (circuitBreaker && circuitKey !== undefined) {
+		circuitBreaker.recordError(circuitKey, error);
+	}
+
+	const config = getConfig(error) || {};
+	setConfigDefaults(config);
+
+	// Put the config back into the err
+	const axiosError = error as AxiosError;
+
+	// biome-ignore lint/suspicious/noExplicitAny: Allow for wider range of errors
+	(axiosError.config as any) = axiosError.config || {}; // Allow for wider range of errors
+	(axiosError.config as RaxConfig).raxConfig = { ...config };
+
+	// Initialize errors array on first error, or append to existing array
+	const errors = config.errors ?? [];
+	errors.push(axiosError);
+
+	// Note that `config` is local to this function whereas `raxConfig` is
+	// state that is tranferred across retries. That is, we want to mutate
+	// `raxConfig`.
+	const raxConfig = (axiosError.config as RaxConfig).raxConfig;
+	setConfigMetadata(config, errors);
+	setConfigMetadata(raxConfig, errors);
+
+	// Notify listeners that the request won't be retried, and return the error
+	// to reject with.
+	const giveUp = (
+		reason: RetryGivenUpReason,
+		rejection: Error = axiosError,
+	) => {
+		options.events?.emit('retryGivenUp', {
+			error: axiosError,
+			config: raxConfig,
+			attempt: config.currentRetryAttempt ?? 0,
+			reason,
+		});
+		options.metrics?.recordGiveUp(
+			{ ...metricLabels, reason },
+			getLatency(config),
+		);
+		return rejection;
+	};
+
+	// Hold the retry until one of the `maxConcurrentRetries` slots is free
+	const acquireRetrySlot = async () => {
+		if (!retryQueue) {
+			return;
+		}
+
+		const event = {
+			error: axiosError,
+			config: raxConfig,
+			attempt: raxConfig.currentRetryAttempt ?? 0,
+		};
+		if (!retryQueue.isFull) {
+			await retryQueue.acquire(0, new AbortController().signal);
+		} else {
+			const start = getTime(raxConfig);
+			options.events?.emit('retryQueued', {
+				...event,
+				queueDepth: retryQueue.depth + 1,
+			});
+			const acquired = await waitForRetrySlot(
+				retryQueue,
+				config.retryPriority ?? 0,
+				options.retryQueueTimeout,
+				axiosError.config,
 			);
-			if (
-				retryAfter &&
-				retryAfter > 0 &&
-				retryAfter <= (config.maxRetryAfter ?? 0)
-			) {
-				delay = retryAfter;
-			} else {
-				reject(axiosError);
-				return;
+			if (!acquired) {
+				throw giveUp('queueTimeout', retryQueueTimeout(axiosError));
 			}
+
+			options.events?.emit('retryDequeued', {
+				...event,
+				waitTime: getTime(raxConfig) - start,
+				queueDepth: retryQueue.depth,
+			});
 		}
 
-		// Now it's certain that a retry is supposed to happen. Incremenent the
-		// counter, critical for linear and exp backoff delay calc. Note that
-		// `config.currentRetryAttempt` is local to this function whereas
-		// `(err.config as RaxConfig).raxConfig` is state that is tranferred across
-		// retries. That is, we want to mutate `(err.config as
-		// RaxConfig).raxConfig`. Another important note is about the definition of
-		// `currentRetryAttempt`: When we are here becasue the first and actual
-		// HTTP request attempt failed then `currentRetryAttempt` is still zero. We
-		// have found that a retry is indeed required. Since that is (will be)
-		// indeed the first retry it makes sense to now increase
-		// `currentRetryAttempt` by 1. So that it is in fact 1 for the first retry
-		// (as opposed to 0 or 2); an intuitive convention to use for the math
-		// below.
-		// biome-ignore lint/style/noNonNullAssertion: Checked above
-		(axiosError.config as RaxConfig).raxConfig.currentRetryAttempt! += 1;
+		// The next attempt carries this error as its last one, so it can free
+		// the slot once its outcome arrives.
+		retrySlots.set(axiosError, retryQueue);
+	};
 
-		// Calculate retries remaining
-		(axiosError.config as RaxConfig).raxConfig.retriesRemaining =
-			// biome-ignore lint/style/noNonNullAssertion: Checked above
-			config.retry! -
-			// biome-ignore lint/style/noNonNullAssertion: Checked above
-			(axiosError.config as RaxConfig).raxConfig.currentRetryAttempt!;
+	// Failures while offline don't count as attempts. Wait for the device to
+	// come back online, and send the request again.
+	const { connectivity } = options;
+	if (
+		connectivity &&
+		!axiosError.response &&
+		config.retry !== 0 &&
+		isRetryableMethod(axiosError, config) &&
+		(config.bodyFactory || !isNonReplayableBody(axiosError.config?.data)) &&
+		!(await connectivity.isOnline())
+	) {
+		// Keep the attempt in the history, but out of the count of retries
+		const attempt = raxConfig.attemptHistory?.at(-1);
+		if (attempt) {
+			attempt.offline = true;
+		}
+
+		const online = await waitForOnline(
+			connectivity,
+			axiosError.config,
+			getTimeLeft(config),
+		);
+		if (!online) {
+			throw giveUp('deadline', deadlineExceeded(axiosError));
+		}
 
-		// Store with shorter and more expressive variable name.
+		// Requests held while offline would otherwise all be sent at once when
+		// the device comes back online.
+		await acquireRetrySlot();
+		// biome-ignore lint/style/noNonNullAssertion: Set above
+		return instance.request(axiosError.config!);
+	}
+
+	const decision = getRetryDecision(axiosError, config);
+	if (!decision.retry) {
+		throw giveUp(decision.reason);
+	}
+
+	const { reason } = decision;
+
+	// Don't wait out a backoff for a retry the open circuit would reject
+	if (
+		circuitBreaker &&
+		circuitKey !== undefined &&
+		circuitBreaker.getState(circuitKey).state === 'open'
+	) {
+		throw giveUp('circuitOpen');
+	}
+
+	// Create a promise that invokes the retry after the backOffDelay
+	let span: RetrySpan | undefined;
+	const onBackoffPromise = new Promise((resolve, reject) => {
+		// An important note is about the definition of `currentRetryAttempt`:
+		// When we are here becasue the first and actual HTTP request attempt
+		// failed then `currentRetryAttempt` is still zero. Since the retry we are
+		// about to make is the first retry, `retrycount` is 1 (as opposed to 0 or
+		// 2); an intuitive convention to use for the math below.
 		// biome-ignore lint/style/noNonNullAssertion: Checked above
-		const retrycount = (axiosError.config as RaxConfig).raxConfig
-			.currentRetryAttempt!;
-
-		// Calculate delay according to chosen strategy
-		// Default to exponential backoff - formula: ((2^c - 1) / 2) * retryDelay
-		if (delay === 0) {
-			// Was not set by Retry-After logic
-			if (config.backoffType === 'linear') {
-				// The delay between the first (actual) attempt and the first retry
-				// should be non-zero. Rely on the convention that `retrycount` is
-				// equal to 1 for the first retry when we are in here (was once 0,
-				// which was a bug -- see #122).
-				delay = retrycount * 1000;
-			} else if (config.backoffType === 'static') {
-				// biome-ignore lint/style/noNonNullAssertion: Checked above
-				delay = config.retryDelay!;
-			} else {
-				// Exponential backoff with retryDelay as base multiplier
-				// biome-ignore lint/style/noNonNullAssertion: Checked above
-				const baseDelay = config.retryDelay!;
-				delay = ((2 ** retrycount - 1) / 2) * baseDelay;
-
-				// Apply jitter if configured
-				const jitter = config.jitter || 'none';
-				if (jitter === 'full') {
-					// Full jitter: random delay between 0 and calculated delay
-					delay = Math.random() * delay;
-				} else if (jitter === 'equal') {
-					// Equal jitter: half fixed, half random
-					delay = delay / 2 + Math.random() * (delay / 2);
-				}
-				// 'none' or any other value: no jitter applied
-			}
+		const retrycount = raxConfig.currentRetryAttempt! + 1;
+		const retryDelay = getRetryDelay(axiosError, raxConfig, retrycount);
+		if (!retryDelay.retry) {
+			reject(giveUp(retryDelay.reason));
+			return;
+		}
 
-			if (typeof config.maxRetryDelay === 'number') {
-				delay = Math.min(delay, config.maxRetryDelay);
-			}
+		const { delay } = retryDelay;
+
+		// Give up if the retry would start after the overall deadline
+		if (
+			typeof config.totalTimeout === 'number' &&
+			getTime(config) + delay >= getDeadline(config)
+		) {
+			reject(giveUp('deadline', deadlineExceeded(axiosError)));
+			return;
+		}
+
+		// Fail fast with the original error when the shared retry budget has
+		// run out, so an outage doesn't multiply the load on the backend.
+		if (options.retryBudget && !options.retryBudget.tryAcquire()) {
+			reject(giveUp('retryBudget'));
+			return;
 		}
 
-		setTimeout(resolve, delay);
+		// Now it's certain that a retry is supposed to happen. Increment the
+		// counter, and calculate retries remaining.
+		raxConfig.currentRetryAttempt = retrycount;
+		// biome-ignore lint/style/noNonNullAssertion: Checked above
+		raxConfig.retriesRemaining = config.retry! - retrycount;
+		raxConfig.lastDelay = delay;
+		raxConfig.totalDelay = (raxConfig.totalDelay ?? 0) + delay;
+		options.events?.emit('retryScheduled', {
+			error: axiosError,
+			config: raxConfig,
+			attempt: retrycount - 1,
+			delay,
+			reason,
+		});
+		options.metrics?.recordRetry(metricLabels, delay);
+		span = options.tracer?.startSpan(retrySpanName, {
+			attributes: {
+				'http.request.method': axiosError.config?.method?.toUpperCase(),
+				'http.request.resend_count': retrycount,
+				'http.response.status_code': axiosError.response?.status,
+				'error.type': axiosError.code ?? axiosError.response?.status,
+				'retry_axios.backoff_delay_ms': delay,
+				'retry_axios.reason': reason,
+			},
+		});
+		if (connectivity) {
+			waitWhileOnline(
+				delay,
+				axiosError.config,
+				connectivity,
+				getTimeLeft(config),
+			).then((inTime) => {
+				if (inTime) {
+					resolve(undefined);
+				} else {
+					reject(giveUp('deadline', deadlineExceeded(axiosError)));
+				}
+			}, reject);
+		} else {
+			wait(delay, axiosError.config).then(resolve, reject);
+		}
 	});
 
+	// The backoff promise is only chained once `onError` is done, so keep a
+	// give-up or cancellation in the meantime from going unhandled.
+	onBackoffPromise.catch(() => {});
 	if (config.onError) {
 		await config.onError(axiosError);
 	}
@@ -383,60 +3683,322 @@ async function onError(instance: AxiosInstance, error: AxiosError) {
 	return (
 		Promise.resolve()
 			.then(async () => onBackoffPromise)
+			.then(acquireRetrySlot)
 			.then(async () => config.onRetryAttempt?.(axiosError))
+			.catch((error_: unknown) => {
+				releaseRetrySlot(raxConfig);
+				throw error_;
+			})
+			.finally(() => span?.end())
 			// biome-ignore lint/style/noNonNullAssertion: Checked above
 			.then(async () => instance.request(axiosError.config!))
 	);
 }
 
+/**
+ * Fill in the defaults of a retry config.
+ * @param config The retry config, which is updated in place.
+ */
+function setConfigDefaults(config: RetryConfig) {
+	config.currentRetryAttempt ||= 0;
+	config.retry = typeof config.retry === 'number' ? config.retry : 3;
+	config.backoffType ||= 'exponential';
+	config.retryDelay =
+		typeof config.retryDelay === 'number'
+			? config.retryDelay
+			: config.backoffType === 'linear'
+				? 1000
+				: 100;
+	config.httpMethodsToRetry = normalizeArray(config.httpMethodsToRetry) || [
+		...retryMethods,
+	];
+	config.checkRetryAfter =
+		typeof config.checkRetryAfter === 'boolean' ? config.checkRetryAfter : true;
+	config.maxRetryAfter =
+		typeof config.maxRetryAfter === 'number'
+			? config.maxRetryAfter
+			: 60_000 * 5;
+
+	config.statusCodesToRetry =
+		normalizeArray(config.statusCodesToRetry) || retryRanges;
+	config.statusCodesToNotRetry =
+		normalizeArray(config.statusCodesToNotRetry) || [];
+	config.errorCodesToRetry =
+		normalizeArray(config.errorCodesToRetry) || retryErrorCodes;
+	config.errorCodesToNotRetry =
+		normalizeArray(config.errorCodesToNotRetry) || [];
+}
+
+/**
+ * Decide whether a failed request should be retried, and why.
+ * @param error The error of the failed attempt, with the retry config set on
+ * its request config.
+ * @param config The retry config, with defaults filled in.
+ */
+function getRetryDecision(
+	error: AxiosError,
+	config: RetryConfig,
+):
+	| { retry: true; reason: RetryScheduledReason }
+	| { retry: false; reason: RetryGivenUpReason } {
+	// First check the retry count limit, then apply custom logic if provided
+	let reason: RetryScheduledReason;
+	if (config.shouldRetry) {
+		// When custom shouldRetry is provided, we still need to check the retry count
+		// to prevent infinite retries (see issue #117)
+		config.currentRetryAttempt ||= 0;
+		if (config.currentRetryAttempt >= (config.retry ?? 0)) {
+			return { retry: false, reason: 'maxAttempts' };
+		}
+		// Now apply the custom shouldRetry logic
+		if (!config.shouldRetry(error)) {
+			return { retry: false, reason: 'custom' };
+		}
+
+		reason = 'custom';
+	} else {
+		// Use the default shouldRetryRequest logic
+		const giveUpReason = getGiveUpReason(error);
+		if (giveUpReason) {
+			return { retry: false, reason: giveUpReason };
+		}
+
+		reason =
+			error.code === retryableResponseCode
+				? 'response'
+				: error.response
+					? 'statusCode'
+					: 'networkError';
+	}
+
+	// Retrying would send an empty or broken body
+	if (!config.bodyFactory && isNonReplayableBody(error.config?.data)) {
+		return { retry: false, reason: 'nonReplayableBody' };
+	}
+
+	return { retry: true, reason };
+}
+
+/**
+ * Work out how long to wait before a retry, from the Retry-After header of
+ * the response or the configured backoff strategy.
+ * @param error The error of the failed attempt.
+ * @param config The retry config, with defaults filled in.
+ * @param attempt The number of the retry, where 1 is the first retry.
+ */
+function getRetryDelay(
+	error: AxiosError,
+	config: RetryConfig,
+	attempt: number,
+):
+	| { retry: true; delay: number }
+	| { retry: false; reason: RetryGivenUpReason } {
+	// If enabled, check for 'Retry-After' header in response to use as delay
+	if (config.checkRetryAfter && error.response?.headers?.['retry-after']) {
+		// Measure HTTP dates against the server clock if asked to, so clock
+		// skew doesn't turn a valid Retry-After into a negative one.
+		const responseDate = Date.parse(String(error.response.headers.date ?? ''));
+		const retryAfter = parseRetryAfter(
+			error.response.headers['retry-after'] as string,
+			config.useResponseDate && !Number.isNaN(responseDate)
+				? responseDate
+				: getTime(config),
+		);
+		if (retryAfter === undefined) {
+			return { retry: false, reason: 'retryAfterInvalid' };
+		}
+
+		const maxRetryAfter = config.maxRetryAfter ?? 0;
+		if (retryAfter <= maxRetryAfter) {
+			// A date in the past means the server is ready for us now
+			return { retry: true, delay: Math.max(retryAfter, 0) };
+		}
+
+		if (config.retryAfterMode === 'clamp') {
+			return { retry: true, delay: maxRetryAfter };
+		}
+
+		if (config.retryAfterMode !== 'ignore') {
+			return { retry: false, reason: 'retryAfterTooLong' };
+		}
+	}
+
+	// Calculate delay according to chosen strategy
+	const backoff =
+		typeof config.backoffType === 'function'
+			? config.backoffType
+			: (backoffStrategies[config.backoffType ?? 'exponential'] ??
+				exponentialBackoff);
+	const delay = backoff(attempt, error, config);
+	return {
+		retry: true,
+		delay:
+			typeof config.maxRetryDelay === 'number'
+				? Math.min(delay, config.maxRetryDelay)
+				: delay,
+	};
+}
+
 /**
  * Determine based on config if we should retry the request.
  * @param err The AxiosError passed to the interceptor.
  */
 export function shouldRetryRequest(error: AxiosError) {
+	return getGiveUpReason(error) === undefined;
+}
+
+/**
+ * Determine why the request should not be retried based on config.
+ * @param err The AxiosError passed to the interceptor.
+ * @returns The reason to give up, or undefined if the request should be
+ * retried.
+ */
+function getGiveUpReason(error: AxiosError): RetryGivenUpReason | undefined {
 	const config = (error.config as RaxConfig).raxConfig;
 
 	// If there's no config, or retries are disabled, return.
 	if (!config || config.retry === 0) {
-		return false;
+		return 'maxAttempts';
 	}
 
 	// Check if we are out of retry attempts first
 	config.currentRetryAttempt ||= 0;
 	if (config.currentRetryAttempt >= (config.retry ?? 0)) {
-		return false;
+		return 'maxAttempts';
 	}
 
-	// Only retry with configured HttpMethods.
-	if (
-		!error.config?.method ||
-		!config.httpMethodsToRetry?.includes(error.config.method.toUpperCase())
-	) {
-		return false;
+	if (!isRetryableMethod(error, config)) {
+		return 'method';
 	}
 
-	// For errors with responses, check status codes
-	if (error.response?.status) {
-		let isInRange = false;
-		// biome-ignore lint/style/noNonNullAssertion: Checked above
-		for (const [min, max] of config.statusCodesToRetry!) {
-			const { status } = error.response;
-			if (status >= min && status <= max) {
-				isInRange = true;
-				break;
-			}
+	// For errors with responses, check status codes. Responses rejected by
+	// `shouldRetryResponse` were already deemed retryable.
+	if (error.response?.status && error.code !== retryableResponseCode) {
+		if (!isRetryableStatus(error.response.status, config)) {
+			return 'statusCode';
 		}
+	}
 
-		if (!isInRange) {
-			return false;
+	// For errors without responses (network errors, timeouts, etc.) only retry
+	// the error codes that are likely to succeed next time.
+	if (!error.response) {
+		const { code } = error;
+		if (
+			!code ||
+			config.errorCodesToNotRetry?.includes(code) ||
+			!config.errorCodesToRetry?.includes(code)
+		) {
+			return 'errorCode';
 		}
 	}
 
-	// For errors without responses (network errors, timeouts, etc.)
-	// we allow retry as long as we haven't exceeded the retry limit
-	// This includes: ETIMEDOUT, ENOTFOUND, ECONNABORTED, ECONNRESET, etc.
+	return undefined;
+}
+
+/**
+ * Whether the method of a request can be retried. Only the methods in
+ * `httpMethodsToRetry` are retried, along with methods made safe to retry with
+ * an idempotency key.
+ * @param error The AxiosError passed to the interceptor.
+ * @param config The retry config.
+ */
+function isRetryableMethod(error: AxiosError, config: RetryConfig) {
+	const method = error.config?.method?.toUpperCase();
+	return Boolean(
+		method &&
+			(config.httpMethodsToRetry?.includes(method) ||
+				(config.idempotencyKey && idempotentKeyMethods.includes(method))),
+	);
+}
+
+/**
+ * Whether a status code is matched by `statusCodesToRetry`, and not excluded
+ * by it or by `statusCodesToNotRetry`.
+ * @param status The response status code.
+ * @param config The retry config.
+ */
+function isRetryableStatus(status: number, config: RetryConfig) {
+	const isExclusion = (matcher: StatusCodeMatcher) =>
+		typeof matcher === 'string' && matcher.startsWith('!');
+	const matchers = config.statusCodesToRetry ?? retryRanges;
+	const exclusions = [
+		...matchers.filter((matcher) => isExclusion(matcher)),
+		...(config.statusCodesToNotRetry ?? []),
+	];
+	return (
+		matchers.some(
+			(matcher) => !isExclusion(matcher) && matchesStatus(status, matcher),
+		) && !exclusions.some((matcher) => matchesStatus(status, matcher))
+	);
+}
+
+/**
+ * Whether a status code is matched by a single status code matcher. A
+ * leading '!' is ignored.
+ * @param status The response status code.
+ * @param matcher The status code matcher.
+ */
+function matchesStatus(status: number, matcher: StatusCodeMatcher) {
+	if (typeof matcher === 'number') {
+		return status === matcher;
+	}
+
+	if (typeof matcher === 'string') {
+		const pattern = matcher.replace(/^!/, '').toLowerCase();
+		return pattern.endsWith('xx')
+			? Math.floor(status / 100) === Number(pattern[0])
+			: status === Number(pattern);
+	}
+
+	const [min, max] = normalizeArray(matcher) ?? [];
+	return status >= (min ?? Number.NaN) && status <= (max ?? Number.NaN);
+}
+
+/**
+ * Record how the latest attempt of a request went.
+ * @param config The retry config of the request.
+ * @param status The status code of the response, if one arrived.
+ * @param code The error code, if no response arrived.
+ */
+function recordAttemptOutcome(
+	config: RetryConfig | undefined,
+	status?: number,
+	code?: string,
+) {
+	const attempt = config?.attemptHistory?.[config.attemptHistory.length - 1];
+	if (!attempt) {
+		return;
+	}
+
+	if (status !== undefined) {
+		attempt.status = status;
+	}
+
+	if (code !== undefined) {
+		attempt.code = code;
+	}
+}
+
+/**
+ * Get a summary of the attempts made to get a response, such as how many
+ * retries it took, and what went wrong with each failed attempt.
+ * @param response A response from an instance with the interceptor attached.
+ * @returns The summary, or undefined if the request didn't go through the
+ * interceptor.
+ */
+export function getRetryInfo(response: AxiosResponse): RetryInfo | undefined {
+	const raxConfig = (response.config as RaxConfig | undefined)?.raxConfig;
+	const history = raxConfig?.attemptHistory;
+	if (!history) {
+		return undefined;
+	}
 
-	return true;
+	return {
+		attempts: history.length,
+		retries: history.filter((attempt) => !attempt.offline).length - 1,
+		history,
+		totalDelay: raxConfig.totalDelay ?? 0,
+	};
 }
 
 /**
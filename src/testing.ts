@@ -0,0 +1,299 @@
+import {
+	type AxiosAdapter,
+	AxiosError,
+	AxiosHeaders,
+	type AxiosResponse,
+	CanceledError,
+	type InternalAxiosRequestConfig,
+} from 'axios';
+import type { RaxConfig } from './index.js';
+
+/**
+ * A response played back by a scripted adapter.
+ */
+export interface ScriptedResponse {
+	/**
+	 * The status code of the response.
+	 */
+	status: number;
+
+	/**
+	 * The body of the response.
+	 */
+	data?: unknown;
+
+	/**
+	 * Headers to send with the response.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Value of the Retry-After header, in seconds or as an HTTP date.
+	 */
+	retryAfter?: number | string;
+
+	/**
+	 * How long (in ms) the response takes to arrive.
+	 */
+	delay?: number;
+}
+
+/**
+ * A network error played back by a scripted adapter.
+ */
+export interface ScriptedNetworkError {
+	/**
+	 * The error code, like 'ECONNRESET' or 'ETIMEDOUT'.
+	 */
+	code: string;
+
+	/**
+	 * The error message. Defaults to the code.
+	 */
+	message?: string;
+
+	/**
+	 * How long (in ms) the error takes to arrive.
+	 */
+	delay?: number;
+}
+
+/**
+ * One step of a script: a status code like 503, a network error code like
+ * 'ECONNRESET', or a full response or network error.
+ */
+export type ScriptedOutcome =
+	| number
+	| string
+	| ScriptedResponse
+	| ScriptedNetworkError;
+
+/**
+ * A request received by a scripted adapter.
+ */
+export interface ScriptedRequest {
+	/**
+	 * The config of the request.
+	 */
+	config: InternalAxiosRequestConfig;
+
+	/**
+	 * The time (in ms since the epoch) at which the request was received.
+	 */
+	time: number;
+
+	/**
+	 * The retry delay (in ms) waited before the request. Zero for the first
+	 * attempt.
+	 */
+	delay: number;
+}
+
+/**
+ * An axios adapter that plays back a script of outcomes, one per request.
+ */
+export interface ScriptedAdapter extends AxiosAdapter {
+	/**
+	 * Each request received, in order.
+	 */
+	readonly requests: ScriptedRequest[];
+
+	/**
+	 * The number of outcomes left in the script.
+	 */
+	readonly remaining: number;
+}
+
+/**
+ * Fake timers from a test framework, like `vi` from vitest or `jest` from
+ * jest, with fake timers enabled.
+ */
+export interface FakeTimers {
+	advanceTimersToNextTimerAsync(): Promise<unknown>;
+}
+
+/**
+ * Options for running a request to completion with fake timers.
+ */
+export interface RunWithFakeTimersOptions {
+	/**
+	 * The most timers to run before giving up on the request settling.
+	 * Defaults to 1000.
+	 */
+	maxTimers?: number;
+}
+
+/**
+ * Create an axios adapter that plays back a script of outcomes, one per
+ * request, so retry behavior can be tested without a server. Requests made
+ * after the script runs out fail.
+ * @param script The outcomes to play back, in order.
+ */
+export function createScriptedAdapter(
+	script: ScriptedOutcome[],
+): ScriptedAdapter {
+	const outcomes = [...script];
+	const requests: ScriptedRequest[] = [];
+
+	const adapter = async (config: InternalAxiosRequestConfig) => {
+		const raxConfig = (config as RaxConfig).raxConfig;
+		requests.push({
+			config,
+			time: raxConfig?.clock ? raxConfig.clock() : Date.now(),
+			delay: raxConfig?.currentRetryAttempt ? (raxConfig.lastDelay ?? 0) : 0,
+		});
+
+		const outcome = outcomes.shift();
+		if (outcome === undefined) {
+			throw new Error(
+				`Scripted adapter has no outcome left for request ${requests.length}`,
+			);
+		}
+
+		const step: ScriptedResponse | ScriptedNetworkError =
+			typeof outcome === 'number'
+				? { status: outcome }
+				: typeof outcome === 'string'
+					? { code: outcome }
+					: outcome;
+		if (step.delay) {
+			await wait(step.delay, config);
+		}
+
+		if ('code' in step) {
+			throw new AxiosError(step.message ?? step.code, step.code, config, {});
+		}
+
+		const headers = new AxiosHeaders(step.headers);
+		if (step.retryAfter !== undefined) {
+			headers.set('retry-after', String(step.retryAfter));
+		}
+
+		const response: AxiosResponse = {
+			data: step.data,
+			status: step.status,
+			statusText: '',
+			headers,
+			config,
+			request: {},
+		};
+		if (config.validateStatus && !config.validateStatus(step.status)) {
+			throw new AxiosError(
+				`Request failed with status code ${step.status}`,
+				step.status < 500
+					? AxiosError.ERR_BAD_REQUEST
+					: AxiosError.ERR_BAD_RESPONSE,
+				config,
+				{},
+				response,
+			);
+		}
+
+		return response;
+	};
+
+	return Object.defineProperties(adapter, {
+		requests: { value: requests },
+		remaining: { get: () => outcomes.length },
+	}) as ScriptedAdapter;
+}
+
+/**
+ * Wait for a scripted delay, unless the request is canceled first.
+ */
+async function wait(ms: number, config: InternalAxiosRequestConfig) {
+	const signal = config.signal as AbortSignal | undefined;
+	await new Promise<void>((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new CanceledError(undefined, undefined, config));
+		};
+
+		const timer = setTimeout(() => {
+			signal?.removeEventListener?.('abort', onAbort);
+			resolve();
+		}, ms);
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+
+		signal?.addEventListener?.('abort', onAbort);
+	});
+}
+
+/**
+ * Check that a scripted adapter received the expected number of requests.
+ * @param adapter The scripted adapter.
+ * @param expected The expected number of requests, including the first.
+ * @throws {Error} If a different number of requests was received.
+ */
+export function assertAttempts(adapter: ScriptedAdapter, expected: number) {
+	const actual = adapter.requests.length;
+	if (actual !== expected) {
+		throw new Error(
+			`Expected ${expected} ${expected === 1 ? 'attempt' : 'attempts'}, but ${actual} ${actual === 1 ? 'was' : 'were'} made`,
+		);
+	}
+}
+
+/**
+ * Check the retry delays waited before each retry a scripted adapter
+ * received.
+ * @param adapter The scripted adapter.
+ * @param expected The expected delays (in ms), one per retry.
+ * @throws {Error} If the delays don't match.
+ */
+export function assertDelays(adapter: ScriptedAdapter, expected: number[]) {
+	const actual = adapter.requests.slice(1).map((request) => request.delay);
+	if (
+		actual.length !== expected.length ||
+		actual.some((delay, index) => delay !== expected[index])
+	) {
+		throw new Error(
+			`Expected retry delays [${expected.join(', ')}], but got [${actual.join(', ')}]`,
+		);
+	}
+}
+
+/**
+ * Run a request to completion with fake timers, running each retry delay and
+ * scripted delay as soon as it is scheduled instead of waiting for it.
+ * @param request The request, made while fake timers are enabled.
+ * @param timers The fake timers, like `vi` from vitest or `jest` from jest.
+ * @param options Options for running the request.
+ * @returns The result of the request.
+ * @throws The error of the request, or an error if it doesn't settle within
+ * `maxTimers` timers.
+ */
+export async function runWithFakeTimers<T>(
+	request: Promise<T>,
+	timers: FakeTimers,
+	options: RunWithFakeTimersOptions = {},
+): Promise<T> {
+	const maxTimers =
+		typeof options.maxTimers === 'number' ? options.maxTimers : 1000;
+	let settled = false;
+	const result = request.then(
+		(value) => {
+			settled = true;
+			return value;
+		},
+		(error: unknown) => {
+			settled = true;
+			throw error;
+		},
+	);
+	// Keep a rejection from being reported as unhandled while timers run.
+	result.catch(() => {});
+
+	for (let count = 0; !settled; count++) {
+		if (count === maxTimers) {
+			throw new Error(`Request did not settle after ${maxTimers} timers`);
+		}
+
+		await timers.advanceTimersToNextTimerAsync();
+	}
+
+	return result;
+}
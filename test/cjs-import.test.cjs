@@ -3,6 +3,7 @@ const nock = require('nock');
 
 // Test CommonJS import
 const rax = require('../build/src/index.cjs');
+const raxTesting = require('../build/src/testing.cjs');
 
 const url = 'http://test-cjs.local';
 
@@ -91,4 +92,20 @@ describe('retry-axios CJS import', () => {
       scope.done();
     }
   });
+
+  it('should import the testing toolkit via CommonJS', async () => {
+    const adapter = raxTesting.createScriptedAdapter([503, 200]);
+    const customAxios = axios.create({ adapter });
+
+    interceptorId = rax.attach(customAxios);
+
+    const response = await customAxios.get('/testing', {
+      raxConfig: {
+        retryDelay: 10
+      }
+    });
+
+    assert.strictEqual(response.status, 200);
+    raxTesting.assertAttempts(adapter, 2);
+  });
 });
@@ -1,6 +1,12 @@
 import assert from 'node:assert';
 import process from 'node:process';
-import axios, { type AxiosError, type AxiosRequestConfig } from 'axios';
+import { Readable } from 'node:stream';
+import axios, {
+	type AxiosAdapter,
+	type AxiosError,
+	type AxiosRequestConfig,
+} from 'axios';
+import FormData from 'form-data';
 import nock from 'nock';
 import pDefer from 'p-defer';
 import { afterEach, describe, it, vitest } from 'vitest';
@@ -54,7 +60,8 @@ describe('retry-axios', () => {
 				[429, 429],
 				[500, 599],
 			];
-			const statusCodesToRetry = config.statusCodesToRetry;
+			// The defaults are all ranges
+			const statusCodesToRetry = config.statusCodesToRetry as number[][];
 			assert.ok(statusCodesToRetry);
 			for (const [i, [min, max]] of statusCodesToRetry.entries()) {
 				const [expMin, expMax] = expectedStatusCodes[i];
@@ -522,7 +529,7 @@ describe('retry-axios', () => {
 		assert.fail('Expected to throw');
 	});
 
-	it('should retry on ENOTFOUND', async () => {
+	it('should not retry on ENOTFOUND by default', async () => {
 		const scopes = [
 			nock(url)
 				.get('/')
@@ -532,13 +539,55 @@ describe('retry-axios', () => {
 			nock(url).get('/').reply(200, 'oatmeal'),
 		];
 		interceptorId = rax.attach();
-		const result = await axios.get(url);
+		await assert.rejects(axios.get(url), { code: 'ENOTFOUND' });
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should retry on ENOTFOUND if listed in errorCodesToRetry', async () => {
+		const scopes = [
+			nock(url)
+				.get('/')
+				.replyWithError(
+					Object.assign(new Error('ENOTFOUND'), { code: 'ENOTFOUND' }),
+				),
+			nock(url).get('/').reply(200, 'oatmeal'),
+		];
+		interceptorId = rax.attach();
+		const result = await axios.get(url, {
+			raxConfig: { errorCodesToRetry: ['ENOTFOUND'] },
+		});
 		assert.strictEqual(result.data, 'oatmeal');
 		for (const s of scopes) {
 			s.done();
 		}
 	});
 
+	it('should not retry error codes in errorCodesToNotRetry', async () => {
+		const scopes = [
+			nock(url)
+				.get('/')
+				.replyWithError(
+					Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' }),
+				),
+			nock(url).get('/').reply(200, 'oatmeal'),
+		];
+		const events = rax.createRetryEventEmitter();
+		const reasons: rax.RetryGivenUpReason[] = [];
+		events.on('retryGivenUp', (event) => reasons.push(event.reason));
+		const client = axios.create();
+		interceptorId = rax.attach(client, { events });
+		await assert.rejects(
+			client.get(url, {
+				raxConfig: { errorCodesToNotRetry: ['ECONNRESET'] },
+			}),
+			{ code: 'ECONNRESET' },
+		);
+		assert.deepStrictEqual(reasons, ['errorCode']);
+		assert.strictEqual(scopes[1].isDone(), false);
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
 	it('should retry on ETIMEDOUT', async () => {
 		const scopes = [
 			nock(url)
@@ -763,6 +812,97 @@ describe('retry-axios', () => {
 		assert.strictEqual(scopes[1].isDone(), false);
 	});
 
+	it('should clamp Retry-After to maxRetryAfter in clamp mode', async () => {
+		const scopes = [
+			nock(url).get('/').reply(429, undefined, { 'Retry-After': '600' }),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const result = await axios({
+			url,
+			raxConfig: { maxRetryAfter: 10, retryAfterMode: 'clamp' },
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.lastDelay, 10);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should use the backoff delay if Retry-After is too long in ignore mode', async () => {
+		const scopes = [
+			nock(url).get('/').reply(429, undefined, { 'Retry-After': '600' }),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const result = await axios({
+			url,
+			raxConfig: {
+				maxRetryAfter: 10,
+				retryAfterMode: 'ignore',
+				backoffType: 'static',
+				retryDelay: 5,
+			},
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.lastDelay, 5);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should retry immediately if Retry-After is in the past', async () => {
+		const scopes = [
+			nock(url).get('/').reply(429, undefined, {
+				'Retry-After': 'Thu, 01 Jan 1970 00:00:05 UTC',
+			}),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const result = await axios({
+			url,
+			raxConfig: { backoffType: 'static', retryDelay: 10_000 },
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.lastDelay, 0);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should measure Retry-After dates against the response Date header', async () => {
+		const serverNow = Date.now() - 60_000; // Server clock is a minute behind
+		const scopes = [
+			nock(url)
+				.get('/')
+				.reply(429, undefined, {
+					Date: new Date(serverNow).toUTCString(),
+					'Retry-After': new Date(serverNow + 2000).toUTCString(),
+				}),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const { promise, resolve } = pDefer();
+		vitest.useFakeTimers({ shouldAdvanceTime: true });
+		const axiosPromise = axios({
+			url,
+			raxConfig: {
+				onError: resolve,
+				useResponseDate: true,
+				backoffType: 'static',
+				retryDelay: 10_000,
+			},
+		});
+		await promise;
+		await vitest.advanceTimersByTimeAsync(2000);
+		const result = await axiosPromise;
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.lastDelay, 2000);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
 	// Short timeout to trip test if delay longer than expected
 	it('should use maxRetryDelay', { timeout: 1000 }, async () => {
 		const scopes = [
@@ -802,6 +942,7 @@ describe('retry-axios', () => {
 		const config: RaxConfig = {
 			url,
 			raxConfig: {
+				errorCodesToRetry: ['ENOTFOUND'],
 				onRetryAttempt(error) {
 					return new Promise((resolve, reject) => {
 						// User wants to abort retry for ENOTFOUND errors
@@ -1206,4 +1347,2276 @@ describe('retry-axios', () => {
 			assert.strictEqual((e as Error).message, 'network error');
 		}
 	});
+
+	it('should stop retrying when the retry budget runs out', async () => {
+		const scope = nock(url).get('/').twice().reply(500);
+		const retryBudget = rax.createRetryBudget({ maxTokens: 1 });
+		const client = axios.create();
+		interceptorId = rax.attach(client, { retryBudget });
+		const cfg: rax.RaxConfig = { url, raxConfig: { retry: 3, retryDelay: 1 } };
+		await assert.rejects(client(cfg), (error: AxiosError) => {
+			assert.strictEqual(error.response?.status, 500);
+			assert.strictEqual(rax.getConfig(error)?.currentRetryAttempt, 1);
+			return true;
+		});
+		scope.done();
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+		assert.deepStrictEqual(retryBudget.getState(), {
+			tokens: 0,
+			maxTokens: 1,
+			retriesAllowed: 1,
+			retriesDenied: 1,
+		});
+	});
+
+	it('should give up on an empty retry budget while an async onError runs', async () => {
+		const scope = nock(url).get('/').reply(503);
+		const retryBudget = rax.createRetryBudget({ maxTokens: 0 });
+		const client = axios.create();
+		interceptorId = rax.attach(client, { retryBudget });
+		let errors = 0;
+		const error = await client
+			.get(url, {
+				raxConfig: {
+					async onError() {
+						await new Promise((resolve) => {
+							setTimeout(resolve, 20);
+						});
+						errors++;
+					},
+				},
+			})
+			.catch((error_) => error_);
+		assert.strictEqual(error.response?.status, 503);
+		assert.strictEqual(errors, 1);
+		scope.done();
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should refill the retry budget on successful responses', async () => {
+		const scopes = [
+			nock(url).get('/').times(2).reply(200),
+			nock(url).get('/').reply(500),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		const retryBudget = rax.createRetryBudget({
+			maxTokens: 1,
+			retryCost: 1,
+			successCredit: 0.5,
+		});
+		assert.ok(retryBudget.tryAcquire());
+		const client = axios.create();
+		interceptorId = rax.attach(client, { retryBudget });
+		await client.get(url);
+		await client.get(url);
+		assert.strictEqual(retryBudget.getState().tokens, 1);
+		const cfg: rax.RaxConfig = { url, raxConfig: { retryDelay: 1 } };
+		const result = await client(cfg);
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(retryBudget.getState().tokens, 0.5);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should open the circuit after consecutive failures', async () => {
+		const scope = nock(url).get('/').twice().reply(500);
+		const circuitBreaker = rax.createCircuitBreaker({ failureThreshold: 2 });
+		const client = axios.create();
+		interceptorId = rax.attach(client, { circuitBreaker });
+		const cfg: rax.RaxConfig = { url, raxConfig: { retry: 3, retryDelay: 1 } };
+		await assert.rejects(client(cfg), (error: AxiosError) => {
+			assert.strictEqual(error.response?.status, 500);
+			assert.strictEqual(rax.getConfig(error)?.currentRetryAttempt, 1);
+			return true;
+		});
+		scope.done();
+
+		// The circuit is now open, so the request never hits the network
+		await assert.rejects(client(cfg), (error: rax.CircuitOpenError) => {
+			assert.ok(error instanceof rax.CircuitOpenError);
+			assert.strictEqual(error.code, 'ERR_CIRCUIT_OPEN');
+			assert.strictEqual(error.key, 'http://test.local');
+			assert.strictEqual(error.lastError?.response?.status, 500);
+			return true;
+		});
+		const status = circuitBreaker.getState('http://test.local');
+		assert.strictEqual(status.state, 'open');
+		assert.strictEqual(status.failures, 2);
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should close a half-open circuit after a successful trial', async () => {
+		const scopes = [
+			nock(url).get('/').reply(500),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		const circuitBreaker = rax.createCircuitBreaker({
+			failureThreshold: 1,
+			resetTimeout: 10,
+			key: (config) => `${config.method}:${config.url}`,
+		});
+		const client = axios.create();
+		interceptorId = rax.attach(client, { circuitBreaker });
+		await assert.rejects(client.get(url));
+		assert.strictEqual(circuitBreaker.getState(`get:${url}`).state, 'open');
+		await new Promise((resolve) => {
+			setTimeout(resolve, 20);
+		});
+		const result = await client.get(url);
+		assert.strictEqual(result.data, 'toast');
+		const status = circuitBreaker.getState(`get:${url}`);
+		assert.strictEqual(status.state, 'closed');
+		assert.strictEqual(status.failures, 0);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should only let a single trial through a half-open circuit', () => {
+		const circuitBreaker = rax.createCircuitBreaker({
+			failureThreshold: 1,
+			resetTimeout: 0,
+		});
+		const error = { isAxiosError: true } as AxiosError;
+		circuitBreaker.recordError('a', error);
+		assert.strictEqual(circuitBreaker.getState('a').state, 'open');
+		assert.strictEqual(circuitBreaker.allowRequest('a'), true);
+		assert.strictEqual(circuitBreaker.getState('a').state, 'half-open');
+		circuitBreaker.recordError('a', error);
+		assert.strictEqual(circuitBreaker.getState('a').state, 'open');
+		assert.strictEqual(circuitBreaker.getState('b').state, 'closed');
+	});
+
+	it('should accept a backoff function', async () => {
+		const scopes = [
+			nock(url).get('/').twice().reply(500),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const attempts: number[] = [];
+		const result = await axios({
+			url,
+			raxConfig: {
+				backoffType(attempt, error, config) {
+					attempts.push(attempt);
+					assert.strictEqual(error.response?.status, 500);
+					assert.strictEqual(config.currentRetryAttempt, attempt - 1);
+					return attempt;
+				},
+				onRetryAttempt: async (error) => {
+					const config = rax.getConfig(error);
+					assert.strictEqual(config?.lastDelay, config?.currentRetryAttempt);
+				},
+			},
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.deepStrictEqual(attempts, [1, 2]);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should use retryDelay for linear backoff', async () => {
+		const scopes = [
+			nock(url).get('/').reply(500),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		let lastDelay: number | undefined;
+		const result = await axios({
+			url,
+			raxConfig: {
+				backoffType: 'linear',
+				retryDelay: 5,
+				async onRetryAttempt(error) {
+					lastDelay = rax.getConfig(error)?.lastDelay;
+				},
+			},
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(lastDelay, 5);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should calculate delays for the built in backoff strategies', () => {
+		const error = {} as AxiosError;
+		const delays = (
+			strategy: rax.BackoffStrategy,
+			config: rax.RetryConfig = {},
+		) => [1, 2, 3, 4, 5].map((attempt) => strategy(attempt, error, config));
+		assert.deepStrictEqual(
+			delays(rax.staticBackoff, { retryDelay: 10 }),
+			[10, 10, 10, 10, 10],
+		);
+		assert.deepStrictEqual(
+			delays(rax.linearBackoff),
+			[1000, 2000, 3000, 4000, 5000],
+		);
+		assert.deepStrictEqual(
+			delays(rax.exponentialBackoff),
+			[50, 150, 350, 750, 1550],
+		);
+		assert.deepStrictEqual(
+			delays(rax.fibonacciBackoff, { retryDelay: 10 }),
+			[10, 10, 20, 30, 50],
+		);
+		assert.deepStrictEqual(
+			delays(rax.polynomialBackoff, { retryDelay: 10 }),
+			[10, 40, 90, 160, 250],
+		);
+		assert.deepStrictEqual(
+			delays(rax.polynomialBackoff, { retryDelay: 1, backoffExponent: 3 }),
+			[1, 8, 27, 64, 125],
+		);
+	});
+
+	it('should keep decorrelated jitter between retryDelay and 3x the last delay', () => {
+		const error = {} as AxiosError;
+		const random = vitest.spyOn(Math, 'random');
+		try {
+			random.mockReturnValue(0);
+			assert.strictEqual(
+				rax.decorrelatedJitterBackoff(1, error, { retryDelay: 100 }),
+				100,
+			);
+			random.mockReturnValue(0.999_999);
+			const delay = rax.decorrelatedJitterBackoff(2, error, {
+				retryDelay: 100,
+				lastDelay: 200,
+			});
+			assert.ok(delay > 599 && delay < 600, `unexpected delay: ${delay}`);
+		} finally {
+			random.mockRestore();
+		}
+	});
+
+	it('should not retry past the totalTimeout deadline', async () => {
+		const scopes = [
+			nock(url).get('/').reply(500),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const cfg: rax.RaxConfig = {
+			url,
+			raxConfig: { backoffType: 'static', retryDelay: 1000, totalTimeout: 500 },
+		};
+		await assert.rejects(axios(cfg), (error: AxiosError) => {
+			assert.strictEqual(error.code, 'ERR_DEADLINE_EXCEEDED');
+			assert.strictEqual(error.response?.status, 500);
+			assert.strictEqual((error.cause as AxiosError).response?.status, 500);
+			const config = rax.getConfig(error);
+			assert.ok(config);
+			assert.strictEqual(config.currentRetryAttempt, 0);
+			assert.strictEqual(config.errors?.length, 1);
+			return true;
+		});
+		scopes[0].done();
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should give up at the deadline or on abort while an async onError runs', async () => {
+		const scope = nock(url).get('/').twice().reply(500);
+		interceptorId = rax.attach();
+		const onError = async () =>
+			new Promise<void>((resolve) => {
+				setTimeout(resolve, 20);
+			});
+		const late = await axios
+			.get(url, {
+				raxConfig: { retryDelay: 1000, totalTimeout: 500, onError },
+			})
+			.catch((error_) => error_);
+		assert.strictEqual(late.code, 'ERR_DEADLINE_EXCEEDED');
+		const controller = new AbortController();
+		const aborted = await axios
+			.get(url, {
+				signal: controller.signal,
+				raxConfig: {
+					async onError() {
+						controller.abort();
+						await onError();
+					},
+				},
+			})
+			.catch((error_) => error_);
+		assert.ok(axios.isCancel(aborted));
+		scope.done();
+	});
+
+	it('should shrink the timeout of retries to the time left', async () => {
+		const scopes = [
+			nock(url).get('/').reply(500),
+			nock(url).get('/').delay(2000).reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const start = Date.now();
+		const cfg: rax.RaxConfig = {
+			url,
+			timeout: 5000,
+			raxConfig: { backoffType: 'static', retryDelay: 10, totalTimeout: 200 },
+		};
+		await assert.rejects(axios(cfg), (error: AxiosError) => {
+			assert.strictEqual(error.code, 'ERR_DEADLINE_EXCEEDED');
+			assert.strictEqual((error.cause as AxiosError).code, 'ECONNABORTED');
+			assert.ok(error.config?.timeout && error.config.timeout <= 200);
+			assert.strictEqual(rax.getConfig(error)?.currentRetryAttempt, 1);
+			return true;
+		});
+		const elapsed = Date.now() - start;
+		assert.ok(elapsed < 1000, `unexpected elapsed time: ${elapsed} ms`);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should retry a POST with the same idempotency key', async () => {
+		const keys: string[] = [];
+		const scopes = [
+			nock(url)
+				.post('/')
+				.reply(function () {
+					keys.push(this.req.headers['idempotency-key'] as string);
+					return [500];
+				}),
+			nock(url)
+				.post('/')
+				.reply(function () {
+					keys.push(this.req.headers['idempotency-key'] as string);
+					return [200, 'toast'];
+				}),
+		];
+		interceptorId = rax.attach();
+		let idempotencyKey: string | undefined;
+		const result = await axios.post(
+			url,
+			{},
+			{
+				raxConfig: {
+					useIdempotencyKey: true,
+					retryDelay: 1,
+					async onRetryAttempt(error) {
+						idempotencyKey = rax.getConfig(error)?.idempotencyKey;
+					},
+				},
+			},
+		);
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(keys.length, 2);
+		assert.ok(keys[0]);
+		assert.strictEqual(keys[0], keys[1]);
+		assert.strictEqual(idempotencyKey, keys[0]);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should use a custom idempotency key factory and header', async () => {
+		const scopes = [
+			nock(url).patch('/').matchHeader('x-request-key', 'key-1').reply(500),
+			nock(url)
+				.patch('/')
+				.matchHeader('x-request-key', 'key-1')
+				.reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		let calls = 0;
+		const result = await axios.patch(
+			url,
+			{},
+			{
+				raxConfig: {
+					useIdempotencyKey: () => `key-${++calls}`,
+					idempotencyKeyHeader: 'X-Request-Key',
+					retryDelay: 1,
+				},
+			},
+		);
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(calls, 1);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should not retry a POST without an idempotency key', async () => {
+		const scope = nock(url).post('/').reply(500);
+		interceptorId = rax.attach();
+		await assert.rejects(
+			axios.post(url, {}, { raxConfig: { useIdempotencyKey: false } }),
+			(error: AxiosError) => {
+				const config = rax.getConfig(error);
+				assert.strictEqual(config?.currentRetryAttempt, 0);
+				assert.strictEqual(config?.idempotencyKey, undefined);
+				return true;
+			},
+		);
+		scope.done();
+	});
+
+	it('should retry successful responses rejected by shouldRetryResponse', async () => {
+		const scopes = [
+			nock(url).get('/').twice().reply(200, { status: 'processing' }),
+			nock(url).get('/').reply(200, { status: 'done' }),
+		];
+		interceptorId = rax.attach();
+		const result = await axios({
+			url,
+			raxConfig: {
+				retryDelay: 1,
+				shouldRetryResponse: (response) =>
+					response.data.status === 'processing',
+			},
+		});
+		assert.deepStrictEqual(result.data, { status: 'done' });
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should return the last response when shouldRetryResponse runs out of retries', async () => {
+		const scope = nock(url)
+			.get('/')
+			.twice()
+			.reply(200, { errors: ['busy'] });
+		interceptorId = rax.attach();
+		const errors: AxiosError[] = [];
+		const result = await axios({
+			url,
+			raxConfig: {
+				retry: 1,
+				retryDelay: 1,
+				shouldRetryResponse: (response) => response.data.errors?.length > 0,
+				onError: (error) => {
+					errors.push(error);
+				},
+			},
+		});
+		assert.strictEqual(result.status, 200);
+		assert.deepStrictEqual(result.data, { errors: ['busy'] });
+		assert.strictEqual(errors.length, 1);
+		assert.strictEqual(errors[0].code, 'ERR_RETRYABLE_RESPONSE');
+		assert.strictEqual(errors[0].response?.status, 200);
+		scope.done();
+	});
+
+	it('should emit events when retries are scheduled and succeed', async () => {
+		const scopes = [
+			nock(url).get('/').reply(500),
+			nock(url)
+				.get('/')
+				.replyWithError(
+					Object.assign(new Error('ETIMEDOUT'), { code: 'ETIMEDOUT' }),
+				),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		const events = rax.createRetryEventEmitter();
+		const scheduled: rax.RetryScheduledEvent[] = [];
+		const succeeded: rax.RetrySucceededEvent[] = [];
+		events.on('retryScheduled', (event) => scheduled.push(event));
+		events.on('retrySucceeded', (event) => succeeded.push(event));
+		const client = axios.create();
+		interceptorId = rax.attach(client, { events });
+		const result = await client({
+			url,
+			raxConfig: { backoffType: 'static', retryDelay: 5 },
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.deepStrictEqual(
+			scheduled.map(({ attempt, delay, reason }) => ({
+				attempt,
+				delay,
+				reason,
+			})),
+			[
+				{ attempt: 0, delay: 5, reason: 'statusCode' },
+				{ attempt: 1, delay: 5, reason: 'networkError' },
+			],
+		);
+		assert.strictEqual(succeeded.length, 1);
+		assert.strictEqual(succeeded[0].attempts, 3);
+		assert.strictEqual(succeeded[0].totalDelay, 10);
+		assert.strictEqual(succeeded[0].response, result);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should emit the reason for giving up', async () => {
+		nock(url)
+			.get('/max')
+			.twice()
+			.reply(500)
+			.get('/status')
+			.reply(404)
+			.post('/method')
+			.reply(500)
+			.get('/retry-after')
+			.reply(429, undefined, { 'Retry-After': '600' })
+			.get('/custom')
+			.reply(500);
+		const events = rax.createRetryEventEmitter();
+		const reasons: rax.RetryGivenUpReason[] = [];
+		const listener = (event: rax.RetryGivenUpEvent) => {
+			reasons.push(event.reason);
+		};
+		events.on('retryGivenUp', listener);
+		const client = axios.create();
+		interceptorId = rax.attach(client, { events });
+		const raxConfig = { retry: 1, retryDelay: 1 };
+		await assert.rejects(client.get(`${url}/max`, { raxConfig }));
+		await assert.rejects(client.get(`${url}/status`, { raxConfig }));
+		await assert.rejects(client.post(`${url}/method`, {}, { raxConfig }));
+		await assert.rejects(client.get(`${url}/retry-after`, { raxConfig }));
+		await assert.rejects(
+			client.get(`${url}/custom`, {
+				raxConfig: { ...raxConfig, shouldRetry: () => false },
+			}),
+		);
+		assert.deepStrictEqual(reasons, [
+			'maxAttempts',
+			'statusCode',
+			'method',
+			'retryAfterTooLong',
+			'custom',
+		]);
+		events.off('retryGivenUp', listener);
+		nock(url).get('/').reply(404);
+		await assert.rejects(client.get(url, { raxConfig }));
+		assert.strictEqual(reasons.length, 5);
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should record a span for each retry', async () => {
+		const scopes = [
+			nock(url).get('/').reply(503),
+			nock(url)
+				.get('/')
+				.replyWithError(
+					Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' }),
+				),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		const spans: Array<{
+			name: string;
+			attributes: rax.RetrySpanAttributes | undefined;
+			ended: boolean;
+		}> = [];
+		const tracer: rax.RetryTracer = {
+			startSpan(name, options) {
+				const span = { name, attributes: options?.attributes, ended: false };
+				spans.push(span);
+				return {
+					end() {
+						span.ended = true;
+					},
+				};
+			},
+		};
+		const client = axios.create();
+		interceptorId = rax.attach(client, { tracer });
+		const result = await client({
+			url,
+			raxConfig: { backoffType: 'static', retryDelay: 5 },
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.deepStrictEqual(spans, [
+			{
+				name: 'retry-axios retry',
+				attributes: {
+					'http.request.method': 'GET',
+					'http.request.resend_count': 1,
+					'http.response.status_code': 503,
+					'error.type': 'ERR_BAD_RESPONSE',
+					'retry_axios.backoff_delay_ms': 5,
+					'retry_axios.reason': 'statusCode',
+				},
+				ended: true,
+			},
+			{
+				name: 'retry-axios retry',
+				attributes: {
+					'http.request.method': 'GET',
+					'http.request.resend_count': 2,
+					'http.response.status_code': undefined,
+					'error.type': 'ECONNRESET',
+					'retry_axios.backoff_delay_ms': 5,
+					'retry_axios.reason': 'networkError',
+				},
+				ended: true,
+			},
+		]);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should collect retry metrics', async () => {
+		const scopes = [
+			nock(url).get('/').reply(500),
+			nock(url).get('/').reply(200, 'toast'),
+			nock(url).get('/missing').reply(404),
+		];
+		const metrics = rax.createRetryMetrics({ buckets: [10, 1000] });
+		const client = axios.create();
+		interceptorId = rax.attach(client, { metrics });
+		const raxConfig = { backoffType: 'static' as const, retryDelay: 5 };
+		await client.get(url, { raxConfig });
+		await assert.rejects(client.get(`${url}/missing`, { raxConfig }));
+		const labels = (status: string) => ({
+			method: 'GET',
+			host: 'test.local',
+			status,
+		});
+		const snapshot = metrics.getSnapshot();
+		assert.deepStrictEqual(snapshot.attempts, [
+			{ labels: labels('500'), value: 1 },
+			{ labels: labels('200'), value: 1 },
+			{ labels: labels('404'), value: 1 },
+		]);
+		assert.deepStrictEqual(snapshot.retries, [
+			{ labels: labels('500'), value: 1 },
+		]);
+		assert.deepStrictEqual(snapshot.successesAfterRetry, [
+			{ labels: labels('200'), value: 1 },
+		]);
+		assert.deepStrictEqual(snapshot.giveUps, [
+			{ labels: { ...labels('404'), reason: 'statusCode' }, value: 1 },
+		]);
+		assert.deepStrictEqual(snapshot.backoffDelay, [
+			{
+				labels: labels('500'),
+				buckets: [
+					{ le: 10, count: 1 },
+					{ le: 1000, count: 1 },
+				],
+				sum: 5,
+				count: 1,
+			},
+		]);
+		assert.deepStrictEqual(
+			snapshot.requestLatency.map(({ labels, count }) => ({ labels, count })),
+			[
+				{ labels: labels('200'), count: 1 },
+				{ labels: labels('404'), count: 1 },
+			],
+		);
+
+		const text = metrics.toPrometheus();
+		assert.ok(text.includes('# TYPE retry_axios_attempts_total counter\n'));
+		assert.ok(
+			text.includes(
+				'retry_axios_retries_total{method="GET",host="test.local",status="500"} 1\n',
+			),
+		);
+		assert.ok(
+			text.includes(
+				'retry_axios_give_ups_total{method="GET",host="test.local",status="404",reason="statusCode"} 1\n',
+			),
+		);
+		assert.ok(
+			text.includes(
+				'retry_axios_backoff_delay_milliseconds_bucket{method="GET",host="test.local",status="500",le="+Inf"} 1\n',
+			),
+		);
+		assert.ok(
+			text.includes(
+				'retry_axios_backoff_delay_milliseconds_sum{method="GET",host="test.local",status="500"} 5\n',
+			),
+		);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should stop the backoff wait when the signal is aborted', async () => {
+		const scopes = [
+			nock(url).get('/').reply(429, undefined, { 'Retry-After': '30' }),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const controller = new AbortController();
+		const onRetryAttempt = vitest.fn(async () => {});
+		const start = Date.now();
+		const request = axios({
+			url,
+			signal: controller.signal,
+			raxConfig: {
+				onError: () => controller.abort(),
+				onRetryAttempt,
+			},
+		});
+		await assert.rejects(request, (error) => {
+			assert.ok(axios.isCancel(error));
+			return true;
+		});
+		assert.ok(Date.now() - start < 1000);
+		assert.strictEqual(onRetryAttempt.mock.calls.length, 0);
+		scopes[0].done();
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should stop the backoff wait when the cancel token is canceled', async () => {
+		const scopes = [
+			nock(url).get('/').reply(429, undefined, { 'Retry-After': '30' }),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const source = axios.CancelToken.source();
+		const request = axios({
+			url,
+			cancelToken: source.token,
+			raxConfig: {
+				onError: () => source.cancel('stop'),
+			},
+		});
+		await assert.rejects(request, (error) => {
+			assert.ok(axios.isCancel(error));
+			assert.strictEqual((error as Error).message, 'stop');
+			return true;
+		});
+		scopes[0].done();
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should hold requests until the rate limit resets', async () => {
+		const reset = Date.now() + 300;
+		const requestTimes: number[] = [];
+		const scopes = [
+			nock(url)
+				.get('/')
+				.reply(() => {
+					requestTimes.push(Date.now());
+					return [
+						200,
+						'one',
+						{
+							'X-RateLimit-Limit': '10',
+							'X-RateLimit-Remaining': '0',
+							'X-RateLimit-Reset': String(reset),
+						},
+					];
+				}),
+			nock(url)
+				.get('/')
+				.reply(() => {
+					requestTimes.push(Date.now());
+					return [200, 'two'];
+				}),
+		];
+		const rateLimiter = rax.createRateLimiter();
+		const client = axios.create();
+		interceptorId = rax.attach(client, { rateLimiter });
+		await client.get(url);
+		assert.deepStrictEqual(rateLimiter.getStates(), {
+			'http://test.local': { limit: 10, remaining: 0, reset },
+		});
+		const result = await client.get(url);
+		assert.strictEqual(result.data, 'two');
+		assert.ok(
+			requestTimes[1] >= reset - 5,
+			`request sent ${reset - requestTimes[1]} ms before the reset`,
+		);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should track the rate limit quota of each origin', () => {
+		const rateLimiter = rax.createRateLimiter({ maxWait: 10_000 });
+		const now = Date.now();
+		rateLimiter.update('https://a.local', {
+			'ratelimit-limit': '2',
+			'ratelimit-remaining': '1',
+			'ratelimit-reset': '5',
+		});
+		rateLimiter.update('https://b.local', {
+			'x-ratelimit-remaining': '0',
+			'x-ratelimit-reset': String(Math.floor(now / 1000) + 60),
+		});
+		rateLimiter.update('https://c.local', { 'content-type': 'text/plain' });
+		assert.strictEqual(rateLimiter.acquire('https://a.local'), 0);
+		const wait = rateLimiter.acquire('https://a.local');
+		assert.ok(wait > 4000 && wait <= 5000, `unexpected wait: ${wait}`);
+		assert.strictEqual(rateLimiter.getState('https://a.local')?.remaining, 0);
+		// The reset is further away than maxWait, so don't hold the request
+		assert.strictEqual(rateLimiter.acquire('https://b.local'), 0);
+		assert.strictEqual(rateLimiter.getState('https://c.local'), undefined);
+		assert.strictEqual(rateLimiter.acquire('https://c.local'), 0);
+	});
+
+	it('should pick the retry config from the first matching rule', async () => {
+		const scopes = [
+			nock(url).post('/payments/1').reply(500),
+			nock(url).get('/search/all?q=toast').twice().reply(500),
+			nock(url).get('/search/all?q=toast').reply(200, 'toast'),
+		];
+		const client = axios.create({ baseURL: url });
+		interceptorId = rax.attach(client, {
+			rules: [
+				{ name: 'payments', url: '/payments/**', config: { retry: 0 } },
+				{
+					name: 'search',
+					method: 'GET',
+					url: '/search/*',
+					config: { retry: 5, backoffType: 'static', retryDelay: 5 },
+				},
+				{ name: 'fallback', config: { retry: 1 } },
+			],
+		});
+		const error = await client.post('/payments/1').catch((error_) => error_);
+		assert.strictEqual(rax.getConfig(error)?.ruleName, 'payments');
+		assert.strictEqual(rax.getConfig(error)?.currentRetryAttempt, 0);
+		const result = await client.get('/search/all', { params: { q: 'toast' } });
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.ruleName, 'search');
+		assert.strictEqual(result.config.raxConfig?.currentRetryAttempt, 2);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should let the request raxConfig override the matching rule', async () => {
+		const scopes = [
+			nock(url).get('/search').twice().reply(500),
+			nock(url).get('/search').reply(200, 'toast'),
+		];
+		const client = axios.create();
+		interceptorId = rax.attach(client, {
+			rules: [
+				{
+					name: 'search',
+					url: /\/search$/,
+					config: { retry: 0, backoffType: 'static', retryDelay: 5 },
+				},
+			],
+		});
+		const result = await client.get(`${url}/search`, {
+			raxConfig: { retry: 2 },
+		});
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.ruleName, 'search');
+		assert.strictEqual(result.config.raxConfig?.retryDelay, 5);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should let the matching rule override the instance defaults', async () => {
+		const scopes = [
+			nock(url).get('/payments/1').reply(503),
+			nock(url).get('/search').twice().reply(503),
+			nock(url).get('/search').reply(200, 'toast'),
+			nock(url).get('/payments/2').reply(503),
+			nock(url).get('/payments/2').reply(200, 'paid'),
+		];
+		const client = axios.create({ baseURL: url });
+		const defaults: rax.RetryConfig = {
+			retry: 3,
+			statusCodesToRetry: [[500, 599]],
+			backoffType: 'static',
+			retryDelay: 5,
+		};
+		client.defaults.raxConfig = defaults;
+		interceptorId = rax.attach(client, {
+			rules: [
+				{
+					name: 'payments',
+					url: '/payments/**',
+					config: { retry: 0, statusCodesToRetry: [[503, 503]] },
+				},
+				{ name: 'search', url: '/search', config: { retry: 0 } },
+			],
+		});
+		const error = await client.get('/payments/1').catch((error_) => error_);
+		assert.strictEqual(error.response?.status, 503);
+		assert.strictEqual(rax.getConfig(error)?.ruleName, 'payments');
+		assert.strictEqual(rax.getConfig(error)?.currentRetryAttempt, 0);
+		assert.deepStrictEqual(rax.getConfig(error)?.statusCodesToRetry, [
+			[503, 503],
+		]);
+		// Settings on the request still take precedence over the rule
+		const result = await client.get('/search', { raxConfig: { retry: 2 } });
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.currentRetryAttempt, 2);
+		assert.strictEqual(result.config.raxConfig?.retryDelay, 5);
+		// Even when they are the same as the instance defaults
+		const paid = await client.get('/payments/2', {
+			raxConfig: { retry: 3, statusCodesToRetry: [[500, 599]] },
+		});
+		assert.strictEqual(paid.data, 'paid');
+		assert.strictEqual(paid.config.raxConfig?.ruleName, 'payments');
+		assert.strictEqual(paid.config.raxConfig?.currentRetryAttempt, 1);
+		for (const s of scopes) {
+			s.done();
+		}
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+		assert.strictEqual(client.defaults.raxConfig, defaults);
+	});
+
+	it('should match rules with a predicate', async () => {
+		const scope = nock(url).get('/').reply(500);
+		const client = axios.create();
+		interceptorId = rax.attach(client, {
+			rules: [
+				{
+					name: 'no-retry',
+					url: (requestUrl, config) =>
+						requestUrl.startsWith(url) && config.method === 'get',
+					config: { retry: 0 },
+				},
+			],
+		});
+		const error = await client.get(url).catch((error_) => error_);
+		assert.strictEqual(rax.getConfig(error)?.ruleName, 'no-retry');
+		scope.done();
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	/**
+	 * Fail every attempt of a request, and collect the delay before each retry.
+	 * `Math.random` is fixed at 0.5, so jittered delays are predictable.
+	 */
+	async function getDelaySchedule(raxConfig: rax.RetryConfig) {
+		const delays: number[] = [];
+		const scope = nock(url)
+			.get('/')
+			.times((raxConfig.retry ?? 3) + 1)
+			.reply(503);
+		const events = rax.createRetryEventEmitter();
+		events.on('retryScheduled', (event) => delays.push(event.delay));
+		const client = axios.create();
+		const id = rax.attach(client, { events });
+		const random = vitest.spyOn(Math, 'random').mockReturnValue(0.5);
+		vitest.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+		let settled = false;
+		const request = client.get(url, { raxConfig }).then(
+			() => {
+				settled = true;
+			},
+			(error: AxiosError) => {
+				settled = true;
+				return error;
+			},
+		);
+		try {
+			// Step through each backoff delay as soon as it's scheduled
+			let waited = 0;
+			while (!settled) {
+				if (waited < delays.length) {
+					await vitest.advanceTimersByTimeAsync(delays[waited++]);
+				}
+
+				await new Promise((resolve) => {
+					setImmediate(resolve);
+				});
+			}
+
+			const error = await request;
+			assert.strictEqual(error?.response?.status, 503);
+			scope.done();
+		} finally {
+			random.mockRestore();
+			vitest.useRealTimers();
+			rax.detach(id, client);
+		}
+
+		return delays;
+	}
+
+	it('should pin the delay schedule of the googleApis policy', async () => {
+		assert.deepStrictEqual(
+			await getDelaySchedule(rax.policies.googleApis),
+			[500, 1500, 3500, 7500, 15_500],
+		);
+	});
+
+	it('should pin the delay schedule of the awsStandard policy', async () => {
+		assert.deepStrictEqual(
+			await getDelaySchedule(rax.policies.awsStandard),
+			[50, 150],
+		);
+	});
+
+	it('should pin the delay schedule of the interactive policy', async () => {
+		assert.deepStrictEqual(
+			await getDelaySchedule(rax.policies.interactive),
+			[75, 225],
+		);
+	});
+
+	it('should pin the delay schedule of the background policy', async () => {
+		assert.deepStrictEqual(
+			await getDelaySchedule(rax.policies.background),
+			[250, 750, 1750, 3750, 7750, 15_750, 31_750, 60_000, 60_000, 60_000],
+		);
+	});
+
+	it('should allow extending a policy with overrides', async () => {
+		assert.deepStrictEqual(
+			await getDelaySchedule({
+				...rax.policies.googleApis,
+				retry: 3,
+				maxRetryDelay: 2000,
+			}),
+			[500, 1500, 2000],
+		);
+		assert.strictEqual(rax.policies.googleApis.retry, 5);
+		assert.ok(Object.isFrozen(rax.policies.googleApis));
+	});
+
+	/**
+	 * Adapter which answers the nth copy of a request after `delays[n]` ms,
+	 * and records the signal of each copy.
+	 */
+	function createStallingAdapter(delays: number[]) {
+		const signals: Array<AbortSignal | undefined> = [];
+		const adapter: AxiosAdapter = async (config) => {
+			const signal = config.signal as AbortSignal | undefined;
+			const copy = signals.push(signal);
+			return new Promise((resolve, reject) => {
+				const timer = setTimeout(
+					() => {
+						resolve({
+							data: `copy ${copy}`,
+							status: 200,
+							statusText: 'OK',
+							headers: {},
+							config,
+						});
+					},
+					delays[copy - 1],
+				);
+				signal?.addEventListener('abort', () => {
+					clearTimeout(timer);
+					reject(new axios.CanceledError());
+				});
+			});
+		};
+
+		return { adapter, signals };
+	}
+
+	it('should hedge a stalled request and abort the losing copy', async () => {
+		const { adapter, signals } = createStallingAdapter([1000, 5]);
+		interceptorId = rax.attach();
+		const result = await axios.get(url, {
+			adapter,
+			raxConfig: { hedgeDelay: 10 },
+		});
+		assert.strictEqual(result.data, 'copy 2');
+		assert.strictEqual(signals.length, 2);
+		assert.strictEqual(signals[0]?.aborted, true);
+		assert.strictEqual(signals[1]?.aborted, false);
+	});
+
+	it('should send at most maxHedges extra copies', async () => {
+		const { adapter, signals } = createStallingAdapter([50, 50, 50, 50]);
+		interceptorId = rax.attach();
+		const result = await axios.get(url, {
+			adapter,
+			raxConfig: { hedgeDelay: 5, maxHedges: 2 },
+		});
+		assert.strictEqual(result.data, 'copy 1');
+		assert.strictEqual(signals.length, 3);
+		assert.deepStrictEqual(
+			signals.map((signal) => signal?.aborted),
+			[false, true, true],
+		);
+	});
+
+	it('should not hedge methods that are not retried', async () => {
+		const { adapter, signals } = createStallingAdapter([50, 5]);
+		interceptorId = rax.attach();
+		const result = await axios.post(url, 'toast', {
+			adapter,
+			raxConfig: { hedgeDelay: 5 },
+		});
+		assert.strictEqual(result.data, 'copy 1');
+		assert.strictEqual(signals.length, 1);
+	});
+
+	it('should abort every copy when a hedged request is aborted', async () => {
+		const { adapter, signals } = createStallingAdapter([1000, 1000]);
+		interceptorId = rax.attach();
+		const controller = new AbortController();
+		const request = axios.get(url, {
+			adapter,
+			signal: controller.signal,
+			raxConfig: { hedgeDelay: 5 },
+		});
+		await new Promise((resolve) => {
+			setTimeout(resolve, 20);
+		});
+		controller.abort();
+		await assert.rejects(request, (error) => axios.isCancel(error));
+		assert.deepStrictEqual(
+			signals.map((signal) => signal?.aborted),
+			[true, true],
+		);
+	});
+
+	it('should not retry a request with a stream body', async () => {
+		const scopes = [
+			nock(url).put('/', 'toast').reply(500),
+			nock(url).put('/').reply(200),
+		];
+		const events = rax.createRetryEventEmitter();
+		const reasons: rax.RetryGivenUpReason[] = [];
+		events.on('retryGivenUp', (event) => reasons.push(event.reason));
+		const client = axios.create();
+		interceptorId = rax.attach(client, { events });
+		await assert.rejects(
+			client.put(url, Readable.from([Buffer.from('to'), Buffer.from('ast')])),
+		);
+		assert.deepStrictEqual(reasons, ['nonReplayableBody']);
+		scopes[0].done();
+		assert.strictEqual(scopes[1].isDone(), false);
+		rax.detach(interceptorId, client);
+		interceptorId = undefined;
+	});
+
+	it('should buffer a stream body so it can be retried', async () => {
+		const scopes = [
+			nock(url).put('/', 'toast').reply(500),
+			nock(url).put('/', 'toast').reply(200, 'toasted'),
+		];
+		interceptorId = rax.attach();
+		const result = await axios.put(
+			url,
+			Readable.from([Buffer.from('to'), Buffer.from('ast')]),
+			{ raxConfig: { nonReplayableBody: 'buffer', retryDelay: 5 } },
+		);
+		assert.strictEqual(result.data, 'toasted');
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should send a stream body larger than maxBufferSize without retrying', async () => {
+		const scopes = [
+			nock(url).put('/', 'toast').reply(500),
+			nock(url).put('/').reply(200),
+		];
+		interceptorId = rax.attach();
+		await assert.rejects(
+			axios.put(url, Readable.from([Buffer.from('to'), Buffer.from('ast')]), {
+				raxConfig: { nonReplayableBody: 'buffer', maxBufferSize: 3 },
+			}),
+		);
+		scopes[0].done();
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should send a form-data body as it is without retrying', async () => {
+		const scopes = [
+			nock(url, {
+				reqheaders: {
+					'content-type': /^multipart\/form-data; boundary=/,
+				},
+			})
+				.put('/', /name="flavor"\r\n\r\ntoast\r\n/)
+				.reply(500),
+			nock(url).put('/').reply(200),
+		];
+		const events = rax.createRetryEventEmitter();
+		const reasons: rax.RetryGivenUpReason[] = [];
+		events.on('retryGivenUp', (event) => reasons.push(event.reason));
+		interceptorId = rax.attach(axios, { events });
+		const form = new FormData();
+		form.append('flavor', 'toast');
+		await assert.rejects(
+			axios.put(url, form, {
+				raxConfig: { nonReplayableBody: 'buffer', retryDelay: 5 },
+			}),
+		);
+		assert.deepStrictEqual(reasons, ['nonReplayableBody']);
+		scopes[0].done();
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should buffer a web ReadableStream body', async () => {
+		const scopes = [
+			nock(url).put('/', 'toast').reply(500),
+			nock(url).put('/', 'toast').reply(200, 'toasted'),
+		];
+		interceptorId = rax.attach();
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(new TextEncoder().encode('toast'));
+				controller.close();
+			},
+		});
+		const result = await axios.put(url, body, {
+			raxConfig: { nonReplayableBody: 'buffer', retryDelay: 5 },
+		});
+		assert.strictEqual(result.data, 'toasted');
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should rebuild the body for each attempt with bodyFactory', async () => {
+		const scopes = [
+			nock(url).put('/', 'toast 1').reply(500),
+			nock(url).put('/', 'toast 2').reply(200, 'toasted'),
+		];
+		interceptorId = rax.attach();
+		let attempts = 0;
+		const result = await axios.put(url, undefined, {
+			raxConfig: {
+				retryDelay: 5,
+				bodyFactory: () => Readable.from([Buffer.from(`toast ${++attempts}`)]),
+			},
+		});
+		assert.strictEqual(result.data, 'toasted');
+		assert.strictEqual(attempts, 2);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should retry fetch requests with the same retry config', async () => {
+		const scopes = [
+			nock(url).get('/').reply(503),
+			nock(url)
+				.get('/')
+				.replyWithError(
+					Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' }),
+				),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		const attempts: Array<{
+			code: string | undefined;
+			status: number | undefined;
+		}> = [];
+		const response = await rax.retryFetch(url, undefined, {
+			backoffType: 'static',
+			retryDelay: 5,
+			onRetryAttempt: async (error) => {
+				const config = rax.getConfig(error);
+				assert.strictEqual(config?.currentRetryAttempt, attempts.length + 1);
+				assert.strictEqual(config?.errors?.length, attempts.length + 1);
+				attempts.push({ code: error.code, status: error.response?.status });
+			},
+		});
+		assert.strictEqual(await response.text(), 'toast');
+		assert.deepStrictEqual(attempts, [
+			{ code: 'ERR_BAD_RESPONSE', status: 503 },
+			{ code: 'ECONNRESET', status: undefined },
+		]);
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should return the last fetch response when retries run out', async () => {
+		const scope = nock(url).get('/').times(3).reply(503, 'busy');
+		const response = await rax.retryFetch(url, undefined, {
+			retry: 2,
+			retryDelay: 5,
+		});
+		assert.strictEqual(response.status, 503);
+		assert.strictEqual(await response.text(), 'busy');
+		scope.done();
+	});
+
+	it('should not retry fetch requests with non-retryable methods or statuses', async () => {
+		const scopes = [
+			nock(url).post('/').reply(503),
+			nock(url).get('/').reply(404),
+			nock(url).get('/').reply(200),
+		];
+		const post = await rax.retryFetch(url, { method: 'POST', body: 'toast' });
+		assert.strictEqual(post.status, 503);
+		const get = await rax.retryFetch(url);
+		assert.strictEqual(get.status, 404);
+		scopes[0].done();
+		scopes[1].done();
+		assert.strictEqual(scopes[2].isDone(), false);
+	});
+
+	it('should respect Retry-After for fetch requests', async () => {
+		const scopes = [
+			nock(url).get('/').reply(429, undefined, { 'Retry-After': '600' }),
+			nock(url).get('/').reply(200),
+		];
+		const response = await rax.retryFetch(new Request(url), undefined, {
+			maxRetryAfter: 1000,
+		});
+		assert.strictEqual(response.status, 429);
+		assert.strictEqual(scopes[1].isDone(), false);
+	});
+
+	it('should stop retrying fetch requests when the Request signal is aborted', async () => {
+		const scope = nock(url).get('/').reply(503);
+		const controller = new AbortController();
+		let errors = 0;
+		await assert.rejects(
+			rax.retryFetch(
+				new Request(url, { signal: controller.signal }),
+				undefined,
+				{
+					retryDelay: 5,
+					onError: () => {
+						errors++;
+						controller.abort();
+					},
+				},
+			),
+			{ name: 'AbortError' },
+		);
+		assert.strictEqual(errors, 1);
+		scope.done();
+	});
+
+	it('should throw an AbortError when fetch is aborted during the backoff', async () => {
+		const scope = nock(url).get('/').reply(503);
+		const controller = new AbortController();
+		await assert.rejects(
+			rax.retryFetch(
+				url,
+				{ signal: controller.signal },
+				{ retryDelay: 60_000, onError: () => controller.abort() },
+			),
+			{ name: 'AbortError' },
+		);
+		scope.done();
+	});
+
+	it('should throw fetch network errors that are not retried', async () => {
+		const scope = nock(url)
+			.get('/')
+			.replyWithError(
+				Object.assign(new Error('ENOTFOUND'), { code: 'ENOTFOUND' }),
+			);
+		await assert.rejects(rax.retryFetch(url), { code: 'ENOTFOUND' });
+		scope.done();
+	});
+
+	it('should accept valid retry configs', () => {
+		assert.deepStrictEqual(rax.validateConfig({}), []);
+		assert.deepStrictEqual(
+			rax.validateConfig({
+				retry: 2,
+				backoffType: 'fibonacci',
+				jitter: 'full',
+				httpMethodsToRetry: { ...['GET', 'POST'] },
+				statusCodesToRetry: [[500, 599]],
+				shouldRetry: () => true,
+			}),
+			[],
+		);
+		for (const policy of Object.values(rax.policies)) {
+			assert.deepStrictEqual(rax.validateConfig(policy), []);
+		}
+	});
+
+	it('should describe each invalid field of a retry config', () => {
+		const config = {
+			retry: -1,
+			statusCodesToNotRetry: [[599, 500], '6xx'],
+			backoffType: 'exponentail',
+			jitter: 'ful',
+			httpMethodsToRetry: ['get', 'PUT'],
+		} as unknown as rax.RetryConfig;
+		assert.throws(
+			() => rax.validateConfig(config),
+			(error) => {
+				assert.ok(error instanceof rax.RetryConfigError);
+				assert.strictEqual(error.code, 'ERR_INVALID_RETRY_CONFIG');
+				assert.deepStrictEqual(error.problems, [
+					'retry must be a non-negative integer, got -1',
+					"backoffType must be a function or one of 'static', 'linear', 'exponential', 'decorrelated-jitter', 'fibonacci', 'polynomial', got 'exponentail'",
+					"jitter must be one of 'none', 'full', 'equal', got 'ful'",
+					"httpMethodsToRetry[0] must be an uppercase HTTP method, like 'GET', got 'get'",
+					"statusCodesToNotRetry[0] must be a status code, a [min, max] range of status codes, or a string like '5xx' or '!501', got [599,500]",
+					"statusCodesToNotRetry[1] must be a status code, a [min, max] range of status codes, or a string like '5xx' or '!501', got '6xx'",
+				]);
+				return true;
+			},
+		);
+	});
+
+	it('should warn once about two status codes which may be a range', () => {
+		const warn = vitest.spyOn(console, 'warn').mockImplementation(() => {});
+		try {
+			assert.deepStrictEqual(
+				rax.validateConfig({ statusCodesToRetry: [400, 499] }),
+				[],
+			);
+			assert.deepStrictEqual(
+				rax.validateConfig({ statusCodesToRetry: [400, 499] }),
+				[],
+			);
+			assert.deepStrictEqual(
+				warn.mock.calls.map(([message]) => message),
+				[
+					"statusCodesToRetry only retries 400 and 499. If you meant every code from 400 to 499, use [[400, 499]] or '4xx'.",
+				],
+			);
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	it('should accept two single status codes', () => {
+		const warn = vitest.spyOn(console, 'warn').mockImplementation(() => {});
+		try {
+			const client = axios.create();
+			client.defaults.raxConfig = {
+				statusCodesToRetry: [429, 503],
+				statusCodesToNotRetry: [501, 505],
+			};
+			rax.detach(rax.attach(client), client);
+			assert.deepStrictEqual(
+				rax.validateConfig({
+					statusCodesToRetry: ['5xx'],
+					statusCodesToNotRetry: [501, 505],
+				}),
+				[],
+			);
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	it('should warn about an invalid retry config in warn mode', () => {
+		const warn = vitest.spyOn(console, 'warn').mockImplementation(() => {});
+		try {
+			const problems = rax.validateConfig({ retry: 1.5 }, 'warn');
+			assert.deepStrictEqual(problems, [
+				'retry must be a non-negative integer, got 1.5',
+			]);
+			assert.strictEqual(warn.mock.calls.length, 1);
+			assert.match(String(warn.mock.calls[0][0]), /retry must be/);
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	it('should validate the instance retry config on attach', () => {
+		const client = axios.create();
+		client.defaults.raxConfig = { retryDelay: -5 };
+		assert.throws(() => rax.attach(client), rax.RetryConfigError);
+		assert.throws(
+			() =>
+				rax.attach(axios.create(), {
+					rules: [
+						{ name: 'bad', config: { retryAfterMode: 'skip' as 'clamp' } },
+					],
+				}),
+			/retryAfterMode must be one of/,
+		);
+	});
+
+	it('should reject requests with an invalid retry config', async () => {
+		const scope = nock(url).get('/').reply(200);
+		interceptorId = rax.attach();
+		await assert.rejects(
+			axios.get(url, { raxConfig: { jitter: 'ful' as 'full' } }),
+			rax.RetryConfigError,
+		);
+		assert.strictEqual(scope.isDone(), false);
+		rax.detach(interceptorId);
+		interceptorId = rax.attach(axios, { configValidation: 'off' });
+		await axios.get(url, { raxConfig: { jitter: 'ful' as 'full' } });
+		scope.done();
+	});
+
+	it('should match status codes by class and exclude codes', async () => {
+		const scopes = [
+			nock(url).get('/503').reply(503),
+			nock(url).get('/503').reply(200, 'toast'),
+			nock(url).get('/501').reply(501),
+			nock(url).get('/505').reply(505),
+		];
+		interceptorId = rax.attach();
+		const raxConfig: rax.RetryConfig = {
+			retryDelay: 5,
+			statusCodesToRetry: ['5xx', '!501'],
+			statusCodesToNotRetry: [505],
+		};
+		const result = await axios.get(`${url}/503`, { raxConfig });
+		assert.strictEqual(result.data, 'toast');
+		await assert.rejects(axios.get(`${url}/501`, { raxConfig }), {
+			status: 501,
+		});
+		await assert.rejects(axios.get(`${url}/505`, { raxConfig }), {
+			status: 505,
+		});
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should match single status codes in object-ified arrays', async () => {
+		const scopes = [
+			nock(url).get('/').reply(409),
+			nock(url).get('/').reply(418),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const result = await axios.get(url, {
+			raxConfig: {
+				retryDelay: 5,
+				statusCodesToRetry: { ...[409, '418', { ...[500, 599] }] } as never,
+			},
+		});
+		assert.strictEqual(result.data, 'toast');
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should summarize the attempts of a successful response', async () => {
+		const scopes = [
+			nock(url).get('/').reply(503),
+			nock(url)
+				.get('/')
+				.replyWithError(
+					Object.assign(new Error('ETIMEDOUT'), { code: 'ETIMEDOUT' }),
+				),
+			nock(url).get('/').reply(200, 'toast'),
+		];
+		interceptorId = rax.attach();
+		const start = Date.now();
+		const result = await axios.get(url, {
+			raxConfig: { backoffType: 'static', retryDelay: 5 },
+		});
+		const info = rax.getRetryInfo(result);
+		assert.ok(info);
+		assert.strictEqual(info.attempts, 3);
+		assert.strictEqual(info.retries, 2);
+		assert.strictEqual(info.totalDelay, 10);
+		assert.deepStrictEqual(
+			info.history.map(({ delay, status, code }) => ({ delay, status, code })),
+			[
+				{ delay: 0, status: 503, code: undefined },
+				{ delay: 5, status: undefined, code: 'ETIMEDOUT' },
+				{ delay: 5, status: 200, code: undefined },
+			],
+		);
+		for (const [i, attempt] of info.history.entries()) {
+			assert.ok(attempt.startTime >= (info.history[i - 1]?.startTime ?? start));
+		}
+
+		for (const s of scopes) {
+			s.done();
+		}
+	});
+
+	it('should summarize a response which succeeded on the first attempt', async () => {
+		const scope = nock(url).get('/').reply(200, 'toast');
+		interceptorId = rax.attach();
+		const result = await axios.get(url);
+		assert.deepStrictEqual(
+			rax.getRetryInfo(result)?.history.map(({ status }) => status),
+			[200],
+		);
+		assert.strictEqual(rax.getRetryInfo(result)?.retries, 0);
+		scope.done();
+	});
+
+	it('should not summarize responses which skipped the interceptor', async () => {
+		const scope = nock(url).get('/').reply(200, 'toast');
+		const result = await axios.get(url);
+		assert.strictEqual(rax.getRetryInfo(result), undefined);
+		scope.done();
+	});
+
+	it('should use the random source and scheduler from the config', async () => {
+		const scope = nock(url).get('/').times(3).reply(503).get('/').reply(200);
+		interceptorId = rax.attach();
+		const randoms = [0.5, 0.25, 0.75];
+		const delays: number[] = [];
+		const result = await axios.get(url, {
+			raxConfig: {
+				retryDelay: 100,
+				jitter: 'full',
+				random: () => randoms.shift() ?? 0,
+				async sleep(delay) {
+					delays.push(delay);
+				},
+			},
+		});
+		assert.strictEqual(result.status, 200);
+		// Full jitter of 50, 150 and 350ms
+		assert.deepStrictEqual(delays, [25, 37.5, 262.5]);
+		assert.strictEqual(rax.getRetryInfo(result)?.totalDelay, 325);
+		scope.done();
+	});
+
+	it('should use the clock from the config', async () => {
+		const now = Date.parse('2030-01-01T00:00:00Z');
+		const scope = nock(url)
+			.get('/')
+			.reply(503, undefined, {
+				'Retry-After': new Date(now + 30_000).toUTCString(),
+			})
+			.get('/')
+			.reply(200);
+		interceptorId = rax.attach();
+		const delays: number[] = [];
+		const result = await axios.get(url, {
+			raxConfig: {
+				clock: () => now,
+				async sleep(delay) {
+					delays.push(delay);
+				},
+			},
+		});
+		assert.deepStrictEqual(delays, [30_000]);
+		assert.deepStrictEqual(
+			rax.getRetryInfo(result)?.history.map(({ startTime }) => startTime),
+			[now, now],
+		);
+		scope.done();
+	});
+
+	it('should record attempts after the rate limiter holds them', async () => {
+		let now = 1_000_000;
+		const clock = () => now;
+		const rateLimiter = rax.createRateLimiter({ clock });
+		rateLimiter.update(url, {
+			'ratelimit-remaining': '0',
+			'ratelimit-reset': '60',
+		});
+		const scope = nock(url).get('/').reply(200);
+		interceptorId = rax.attach(axios, { rateLimiter });
+		const result = await axios.get(url, {
+			raxConfig: {
+				clock,
+				async sleep(delay) {
+					now += delay;
+				},
+			},
+		});
+		assert.strictEqual(result.config.raxConfig?.startTime, 1_000_000);
+		assert.deepStrictEqual(
+			rax.getRetryInfo(result)?.history.map(({ startTime }) => startTime),
+			[1_060_000],
+		);
+		scope.done();
+	});
+
+	it('should enforce totalTimeout with the clock from the config', async () => {
+		let now = 0;
+		const scope = nock(url).get('/').reply(503);
+		interceptorId = rax.attach();
+		const error = await axios
+			.get(url, {
+				raxConfig: {
+					totalTimeout: 1000,
+					backoffType: 'static',
+					retryDelay: 10,
+					clock: () => now,
+					shouldRetry() {
+						now = 995;
+						return true;
+					},
+				},
+			})
+			.catch((error_) => error_);
+		assert.strictEqual(error.code, 'ERR_DEADLINE_EXCEEDED');
+		scope.done();
+	});
+
+	it('should abort the scheduler when the request is canceled', async () => {
+		const scope = nock(url).get('/').reply(503);
+		interceptorId = rax.attach();
+		const controller = new AbortController();
+		const sleeping = pDefer<AbortSignal>();
+		const request = axios.get(url, {
+			signal: controller.signal,
+			raxConfig: {
+				async sleep(_delay, signal) {
+					sleeping.resolve(signal);
+					return new Promise(() => {});
+				},
+			},
+		});
+		const signal = await sleeping.promise;
+		assert.strictEqual(signal.aborted, false);
+		controller.abort();
+		const error = await request.catch((error_) => error_);
+		assert.ok(axios.isCancel(error));
+		assert.strictEqual(signal.aborted, true);
+		scope.done();
+	});
+
+	it('should wait for hedged copies with the scheduler from the config', async () => {
+		const { adapter, signals } = createStallingAdapter([1000, 5]);
+		interceptorId = rax.attach();
+		const delays: number[] = [];
+		const result = await axios.get(url, {
+			adapter,
+			raxConfig: {
+				hedgeDelay: 20,
+				async sleep(delay) {
+					delays.push(delay);
+				},
+			},
+		});
+		assert.strictEqual(result.data, 'copy 2');
+		assert.deepStrictEqual(delays, [20]);
+		assert.strictEqual(signals[0]?.aborted, true);
+	});
+
+	it('should reject a clock, random source or scheduler that is not a function', () => {
+		assert.deepStrictEqual(
+			rax.validateConfig(
+				{
+					clock: 0,
+					random: 0.5,
+					sleep: 'setTimeout',
+				} as unknown as rax.RetryConfig,
+				'warn',
+			),
+			[
+				'clock must be a function, got 0',
+				'random must be a function, got 0.5',
+				"sleep must be a function, got 'setTimeout'",
+			],
+		);
+	});
+
+	it('should use the clock of rate limiters and circuit breakers', () => {
+		let now = 1_000_000;
+		const clock = () => now;
+		const rateLimiter = rax.createRateLimiter({ clock });
+		rateLimiter.update(url, {
+			'ratelimit-remaining': '0',
+			'ratelimit-reset': '2',
+		});
+		assert.deepStrictEqual(rateLimiter.getState(url), {
+			remaining: 0,
+			reset: now + 2000,
+		});
+		assert.strictEqual(rateLimiter.acquire(url), 2000);
+
+		const circuitBreaker = rax.createCircuitBreaker({
+			failureThreshold: 1,
+			resetTimeout: 100,
+			clock,
+		});
+		circuitBreaker.recordError(url, new axios.AxiosError('boom'));
+		assert.strictEqual(circuitBreaker.allowRequest(url), false);
+		now += 100;
+		assert.strictEqual(circuitBreaker.allowRequest(url), true);
+	});
+
+	/**
+	 * Create an adapter which fails the first attempt of each request with a
+	 * 503, and holds each retry until it is released.
+	 */
+	function createGatedAdapter() {
+		const retries: Array<{ name: string; release: () => void }> = [];
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const adapter: AxiosAdapter = async (config) => {
+			const response = {
+				data: config.url,
+				status: 503,
+				statusText: '',
+				headers: {},
+				config,
+			};
+			if (!config.raxConfig?.currentRetryAttempt) {
+				throw new axios.AxiosError(
+					'Service Unavailable',
+					'ERR_BAD_RESPONSE',
+					config,
+					{},
+					response,
+				);
+			}
+
+			inFlight++;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			const deferred = pDefer<void>();
+			retries.push({ name: config.url ?? '', release: deferred.resolve });
+			await deferred.promise;
+			inFlight--;
+			return { ...response, status: 200 };
+		};
+
+		return {
+			adapter,
+			retries,
+			getMaxInFlight: () => maxInFlight,
+		};
+	}
+
+	async function until(condition: () => boolean) {
+		while (!condition()) {
+			await new Promise((resolve) => {
+				setImmediate(resolve);
+			});
+		}
+	}
+
+	it('should limit the number of retries in flight', async () => {
+		const { adapter, retries, getMaxInFlight } = createGatedAdapter();
+		const client = axios.create({
+			adapter,
+			raxConfig: { sleep: async () => {} },
+		});
+		const id = rax.attach(client, { maxConcurrentRetries: 2 });
+		const requests = ['/a', '/b', '/c', '/d'].map(async (path) =>
+			client.get(path),
+		);
+		await until(() => retries.length === 2);
+		assert.deepStrictEqual(
+			retries.map(({ name }) => name),
+			['/a', '/b'],
+		);
+		retries[0].release();
+		await until(() => retries.length === 3);
+		retries[1].release();
+		await until(() => retries.length === 4);
+		retries[2].release();
+		retries[3].release();
+		const results = await Promise.all(requests);
+		assert.deepStrictEqual(
+			results.map(({ status }) => status),
+			[200, 200, 200, 200],
+		);
+		assert.strictEqual(getMaxInFlight(), 2);
+		rax.detach(id, client);
+	});
+
+	it('should send queued retries in priority order', async () => {
+		const { adapter, retries } = createGatedAdapter();
+		const client = axios.create({
+			adapter,
+			raxConfig: { sleep: async () => {} },
+		});
+		const events = rax.createRetryEventEmitter();
+		let queued = 0;
+		events.on('retryQueued', () => queued++);
+		const id = rax.attach(client, { maxConcurrentRetries: 1, events });
+		const first = client.get('/first');
+		await until(() => retries.length === 1);
+		const requests = [
+			client.get('/low', { raxConfig: { retryPriority: -1 } }),
+			client.get('/normal'),
+			client.get('/high', { raxConfig: { retryPriority: 5 } }),
+			client.get('/normal-2'),
+		];
+		await until(() => queued === 4);
+		for (let i = 0; i < 5; i++) {
+			retries[i].release();
+			if (i < 4) {
+				await until(() => retries.length === i + 2);
+			}
+		}
+
+		await Promise.all([first, ...requests]);
+		assert.deepStrictEqual(
+			retries.map(({ name }) => name),
+			['/first', '/high', '/normal', '/normal-2', '/low'],
+		);
+		rax.detach(id, client);
+	});
+
+	it('should report the depth of the retry queue and the time spent in it', async () => {
+		const { adapter, retries } = createGatedAdapter();
+		let now = 0;
+		const client = axios.create({
+			adapter,
+			raxConfig: { sleep: async () => {}, clock: () => now },
+		});
+		const events = rax.createRetryEventEmitter();
+		const queued: rax.RetryQueuedEvent[] = [];
+		const dequeued: rax.RetryDequeuedEvent[] = [];
+		events.on('retryQueued', (event) => queued.push(event));
+		events.on('retryDequeued', (event) => dequeued.push(event));
+		const id = rax.attach(client, { maxConcurrentRetries: 1, events });
+		const requests = [client.get('/a'), client.get('/b'), client.get('/c')];
+		await until(() => queued.length === 2);
+		assert.deepStrictEqual(
+			queued.map(({ attempt, queueDepth }) => ({ attempt, queueDepth })),
+			[
+				{ attempt: 1, queueDepth: 1 },
+				{ attempt: 1, queueDepth: 2 },
+			],
+		);
+		now = 250;
+		retries[0].release();
+		await until(() => retries.length === 2);
+		now = 400;
+		retries[1].release();
+		await until(() => retries.length === 3);
+		retries[2].release();
+		await Promise.all(requests);
+		assert.deepStrictEqual(
+			dequeued.map(({ waitTime, queueDepth }) => ({ waitTime, queueDepth })),
+			[
+				{ waitTime: 250, queueDepth: 1 },
+				{ waitTime: 400, queueDepth: 0 },
+			],
+		);
+		rax.detach(id, client);
+	});
+
+	it('should reject retries which wait longer than the queue timeout', async () => {
+		const { adapter, retries } = createGatedAdapter();
+		const client = axios.create({ adapter });
+		const events = rax.createRetryEventEmitter();
+		const reasons: string[] = [];
+		events.on('retryGivenUp', (event) => reasons.push(event.reason));
+		const id = rax.attach(client, {
+			maxConcurrentRetries: 1,
+			retryQueueTimeout: 20,
+			events,
+		});
+		const first = client.get('/first', { raxConfig: { retryDelay: 1 } });
+		await until(() => retries.length === 1);
+		const error = await client
+			.get('/second', { raxConfig: { retryDelay: 1 } })
+			.catch((error_) => error_);
+		assert.strictEqual(error.code, 'ERR_RETRY_QUEUE_TIMEOUT');
+		assert.strictEqual(error.response.status, 503);
+		assert.strictEqual(error.cause.code, 'ERR_BAD_RESPONSE');
+		assert.deepStrictEqual(reasons, ['queueTimeout']);
+		retries[0].release();
+		assert.strictEqual((await first).status, 200);
+		rax.detach(id, client);
+	});
+
+	it('should leave the retry queue when a queued request is canceled', async () => {
+		const { adapter, retries } = createGatedAdapter();
+		const client = axios.create({
+			adapter,
+			raxConfig: { sleep: async () => {} },
+		});
+		const events = rax.createRetryEventEmitter();
+		let queued = 0;
+		events.on('retryQueued', () => queued++);
+		const id = rax.attach(client, { maxConcurrentRetries: 1, events });
+		const first = client.get('/first');
+		await until(() => retries.length === 1);
+		const controller = new AbortController();
+		const canceled = client.get('/canceled', { signal: controller.signal });
+		const last = client.get('/last');
+		await until(() => queued === 2);
+		controller.abort();
+		assert.ok(axios.isCancel(await canceled.catch((error_) => error_)));
+		retries[0].release();
+		await until(() => retries.length === 2);
+		assert.strictEqual(retries[1].name, '/last');
+		retries[1].release();
+		await Promise.all([first, last]);
+		rax.detach(id, client);
+	});
+
+	it('should free the slot of a retry which is never sent', async () => {
+		const { adapter, retries } = createGatedAdapter();
+		const client = axios.create({
+			adapter,
+			raxConfig: { sleep: async () => {} },
+		});
+		const id = rax.attach(client, { maxConcurrentRetries: 1 });
+		const error = await client
+			.get('/aborted', {
+				raxConfig: {
+					async onRetryAttempt() {
+						throw new Error('not today');
+					},
+				},
+			})
+			.catch((error_) => error_);
+		assert.strictEqual(error.message, 'not today');
+		const broken = await client
+			.get('/broken', {
+				raxConfig: {
+					bodyFactory(config) {
+						if (config.raxConfig?.currentRetryAttempt) {
+							throw new Error('no body');
+						}
+					},
+				},
+			})
+			.catch((error_) => error_);
+		assert.strictEqual(broken.message, 'no body');
+		const request = client.get('/next');
+		await until(() => retries.length === 1);
+		retries[0].release();
+		assert.strictEqual((await request).status, 200);
+		rax.detach(id, client);
+	});
+
+	it('should validate the retry queue options on attach', () => {
+		const client = axios.create();
+		assert.throws(
+			() =>
+				rax.attach(client, {
+					maxConcurrentRetries: 0,
+					retryQueueTimeout: -1,
+				}),
+			(error) => {
+				assert.ok(error instanceof rax.RetryConfigError);
+				assert.deepStrictEqual(error.problems, [
+					'maxConcurrentRetries must be a positive integer, got 0',
+					'retryQueueTimeout must be a non-negative number, got -1',
+				]);
+				return true;
+			},
+		);
+		assert.throws(
+			() => rax.attach(client, { maxConcurrentRetries: 1.5 }),
+			/maxConcurrentRetries must be a positive integer, got 1.5/,
+		);
+		assert.throws(
+			() =>
+				rax.attach(client, {
+					retryQueueTimeout: Number.NaN,
+					configValidation: 'off',
+				}),
+			/retryQueueTimeout must be a non-negative number, got NaN/,
+		);
+		assert.strictEqual(client.interceptors.response.handlers?.length, 0);
+	});
+
+	function createConnectivityTarget(onLine: boolean) {
+		const target = Object.assign(new EventTarget(), { navigator: { onLine } });
+		return {
+			target,
+			setOnline(value: boolean) {
+				target.navigator.onLine = value;
+				target.dispatchEvent(new Event(value ? 'online' : 'offline'));
+			},
+		};
+	}
+
+	it('should not count attempts which fail while offline', async () => {
+		const networkError = Object.assign(new Error('ECONNRESET'), {
+			code: 'ECONNRESET',
+		});
+		const scope = nock(url)
+			.get('/')
+			.replyWithError(networkError)
+			.get('/')
+			.replyWithError(networkError)
+			.get('/')
+			.reply(200, 'toast');
+		const { target, setOnline } = createConnectivityTarget(false);
+		const connectivity = rax.createBrowserConnectivity(target);
+		const waiting = pDefer<void>();
+		const onChange = connectivity.onChange;
+		connectivity.onChange = (listener) => {
+			waiting.resolve();
+			return onChange(listener);
+		};
+		const client = axios.create();
+		const id = rax.attach(client, { connectivity });
+		const request = client.get(url, {
+			raxConfig: { retry: 1, retryDelay: 1 },
+		});
+		await waiting.promise;
+		setOnline(true);
+		const result = await request;
+		assert.strictEqual(result.data, 'toast');
+		assert.strictEqual(result.config.raxConfig?.currentRetryAttempt, 1);
+		const info = rax.getRetryInfo(result);
+		assert.strictEqual(info?.attempts, 3);
+		assert.strictEqual(info?.retries, 1);
+		assert.deepStrictEqual(
+			info?.history.map(({ delay, code, offline }) => ({
+				delay,
+				code,
+				offline,
+			})),
+			[
+				{ delay: 0, code: 'ECONNRESET', offline: true },
+				{ delay: 0, code: 'ECONNRESET', offline: undefined },
+				{
+					delay: result.config.raxConfig?.lastDelay,
+					code: undefined,
+					offline: undefined,
+				},
+			],
+		);
+		rax.detach(id, client);
+		scope.done();
+	});
+
+	it('should pause the backoff countdown while offline', async () => {
+		const scope = nock(url).get('/').reply(503).get('/').reply(200, 'toast');
+		const { target, setOnline } = createConnectivityTarget(true);
+		const client = axios.create();
+		const id = rax.attach(client, {
+			connectivity: rax.createBrowserConnectivity(target),
+		});
+		let now = 0;
+		const sleeps: Array<{
+			delay: number;
+			signal: AbortSignal;
+			resolve: () => void;
+		}> = [];
+		const request = client.get(url, {
+			raxConfig: {
+				backoffType: 'static',
+				retryDelay: 50,
+				clock: () => now,
+				async sleep(delay, signal) {
+					const deferred = pDefer<void>();
+					sleeps.push({ delay, signal, resolve: deferred.resolve });
+					return deferred.promise;
+				},
+			},
+		});
+		await until(() => sleeps.length === 1);
+		now = 20;
+		setOnline(false);
+		assert.strictEqual(sleeps[0].signal.aborted, true);
+		now = 10_000;
+		setOnline(true);
+		await until(() => sleeps.length === 2);
+		sleeps[1].resolve();
+		const result = await request;
+		assert.strictEqual(result.data, 'toast');
+		assert.deepStrictEqual(
+			sleeps.map(({ delay }) => delay),
+			[50, 30],
+		);
+		rax.detach(id, client);
+		scope.done();
+	});
+
+	it('should stop waiting to come back online at the deadline', async () => {
+		const scope = nock(url)
+			.get('/')
+			.replyWithError(
+				Object.assign(new Error('ENOTFOUND'), { code: 'ENOTFOUND' }),
+			);
+		const { target } = createConnectivityTarget(false);
+		const events = rax.createRetryEventEmitter();
+		const reasons: string[] = [];
+		events.on('retryGivenUp', (event) => reasons.push(event.reason));
+		const client = axios.create();
+		const id = rax.attach(client, {
+			connectivity: rax.createBrowserConnectivity(target),
+			events,
+		});
+		const error = await client
+			.get(url, { raxConfig: { totalTimeout: 20 } })
+			.catch((error_) => error_);
+		assert.strictEqual(error.code, 'ERR_DEADLINE_EXCEEDED');
+		assert.strictEqual(error.cause.code, 'ENOTFOUND');
+		assert.deepStrictEqual(reasons, ['deadline']);
+		rax.detach(id, client);
+		scope.done();
+	});
+
+	it('should not wait to come back online for requests that cannot be retried', async () => {
+		const scope = nock(url)
+			.post('/')
+			.replyWithError(
+				Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' }),
+			);
+		const { target } = createConnectivityTarget(false);
+		const client = axios.create();
+		const id = rax.attach(client, {
+			connectivity: rax.createBrowserConnectivity(target),
+		});
+		const error = await client.post(url).catch((error_) => error_);
+		assert.strictEqual(error.code, 'ECONNRESET');
+		rax.detach(id, client);
+		scope.done();
+	});
+
+	it('should limit requests sent again once the device is back online', async () => {
+		const resent: Array<{ name: string; release: () => void }> = [];
+		const failed = new Set<string>();
+		const adapter: AxiosAdapter = async (config) => {
+			const name = config.url ?? '';
+			if (!failed.has(name)) {
+				failed.add(name);
+				throw new axios.AxiosError('ECONNRESET', 'ECONNRESET', config);
+			}
+
+			const deferred = pDefer<void>();
+			resent.push({ name, release: deferred.resolve });
+			await deferred.promise;
+			return { data: name, status: 200, statusText: '', headers: {}, config };
+		};
+
+		const { target, setOnline } = createConnectivityTarget(false);
+		const client = axios.create({ adapter });
+		const id = rax.attach(client, {
+			connectivity: rax.createBrowserConnectivity(target),
+			maxConcurrentRetries: 1,
+		});
+		const requests = ['/a', '/b'].map(async (path) => client.get(path));
+		await until(() => failed.size === 2);
+		setOnline(true);
+		await until(() => resent.length === 1);
+		await new Promise((resolve) => {
+			setImmediate(resolve);
+		});
+		assert.strictEqual(resent.length, 1);
+		resent[0].release();
+		await until(() => resent.length === 2);
+		resent[1].release();
+		const results = await Promise.all(requests);
+		assert.deepStrictEqual(
+			results.map(({ data }) => data),
+			['/a', '/b'],
+		);
+		rax.detach(id, client);
+	});
+
+	it('should report the device online outside of a browser', () => {
+		assert.strictEqual(rax.createBrowserConnectivity({}).isOnline(), true);
+	});
+
+	it('should probe the network until it is back', async () => {
+		const results = [false, false, true];
+		let probes = 0;
+		const connectivity = rax.createProbeConnectivity({
+			async probe() {
+				probes++;
+				const result = results.shift();
+				if (result === undefined) {
+					throw new Error('no more results');
+				}
+
+				return result;
+			},
+			interval: 1,
+		});
+		assert.strictEqual(await connectivity.isOnline(), false);
+		const online = pDefer<boolean>();
+		const removeListener = connectivity.onChange(online.resolve);
+		assert.strictEqual(await online.promise, true);
+		removeListener();
+		assert.strictEqual(probes, 3);
+		assert.strictEqual(await connectivity.isOnline(), false);
+	});
 });
@@ -102,8 +102,11 @@ describe('published package', () => {
 					[
 						"import axios from 'axios';",
 						"import * as rax from 'retry-axios';",
+						"import { createScriptedAdapter } from 'retry-axios/testing';",
 						'',
-						'const client = axios.create();',
+						'const client = axios.create({',
+						'\tadapter: createScriptedAdapter([503, 200]),',
+						'});',
 						'client.defaults.raxConfig = { retry: 3 };',
 						'rax.attach(client);',
 						'',
@@ -133,6 +136,9 @@ describe('published package', () => {
 						'.': {
 							types: { import: string; require: string };
 						};
+						'./testing': {
+							types: { import: string; require: string };
+						};
 					};
 				};
 
@@ -140,18 +146,24 @@ describe('published package', () => {
 					import: './build/src/index.d.ts',
 					require: './build/src/index.d.cts',
 				});
-				assert.ok(
-					existsSync(
-						join(
-							consumerDir,
-							'node_modules',
-							'retry-axios',
-							'build',
-							'src',
-							'index.d.cts',
+				assert.deepStrictEqual(installedPackage.exports['./testing'].types, {
+					import: './build/src/testing.d.ts',
+					require: './build/src/testing.d.cts',
+				});
+				for (const file of ['index.d.cts', 'testing.d.cts']) {
+					assert.ok(
+						existsSync(
+							join(
+								consumerDir,
+								'node_modules',
+								'retry-axios',
+								'build',
+								'src',
+								file,
+							),
 						),
-					),
-				);
+					);
+				}
 
 				run(npmCommand, ['run', 'build'], consumerDir);
 			} finally {
@@ -0,0 +1,145 @@
+import assert from 'node:assert';
+import axios, { type AxiosInstance } from 'axios';
+import { afterEach, describe, it, vitest } from 'vitest';
+import * as rax from '../src/index.js';
+import {
+	assertAttempts,
+	assertDelays,
+	createScriptedAdapter,
+	runWithFakeTimers,
+	type ScriptedOutcome,
+} from '../src/testing.js';
+
+describe('retry-axios/testing', () => {
+	let instance: AxiosInstance | undefined;
+	let interceptorId: number | undefined;
+	afterEach(() => {
+		vitest.useRealTimers();
+		if (interceptorId !== undefined && instance) {
+			rax.detach(interceptorId, instance);
+		}
+
+		instance = undefined;
+		interceptorId = undefined;
+	});
+
+	function createInstance(script: ScriptedOutcome[]) {
+		const adapter = createScriptedAdapter(script);
+		instance = axios.create({ adapter });
+		interceptorId = rax.attach(instance);
+		return { adapter, instance };
+	}
+
+	it('should play back a script of outcomes', async () => {
+		vitest.useFakeTimers();
+		const { adapter, instance } = createInstance([
+			503,
+			'ECONNRESET',
+			{ status: 200, data: { ok: true } },
+		]);
+		const response = await runWithFakeTimers(
+			instance.get('/', {
+				raxConfig: { retryDelay: 100, backoffType: 'static' },
+			}),
+			vitest,
+		);
+		assert.strictEqual(response.status, 200);
+		assert.deepStrictEqual(response.data, { ok: true });
+		assert.strictEqual(adapter.remaining, 0);
+		assertAttempts(adapter, 3);
+		assertDelays(adapter, [100, 100]);
+	});
+
+	it('should send Retry-After headers from the script', async () => {
+		vitest.useFakeTimers();
+		const { adapter, instance } = createInstance([
+			{ status: 429, retryAfter: 2 },
+			200,
+		]);
+		const response = await runWithFakeTimers(instance.get('/'), vitest);
+		assert.strictEqual(response.status, 200);
+		assertDelays(adapter, [2000]);
+		assert.strictEqual(
+			adapter.requests[1].time - adapter.requests[0].time,
+			2000,
+		);
+	});
+
+	it('should reject with the last scripted failure', async () => {
+		vitest.useFakeTimers();
+		const { adapter, instance } = createInstance([500, 500, 500, 500]);
+		const request = runWithFakeTimers(
+			instance.get('/', { raxConfig: { retry: 3 } }),
+			vitest,
+		);
+		const error = await request.catch((error_) => error_);
+		assert.strictEqual(error.response?.status, 500);
+		assert.strictEqual(rax.getConfig(error)?.currentRetryAttempt, 3);
+		assertAttempts(adapter, 4);
+	});
+
+	it('should play back network errors with their codes', async () => {
+		const { instance } = createInstance([
+			{ code: 'ENOTFOUND', message: 'getaddrinfo ENOTFOUND test.local' },
+		]);
+		const error = await instance.get('/').catch((error_) => error_);
+		assert.strictEqual(error.code, 'ENOTFOUND');
+		assert.strictEqual(error.message, 'getaddrinfo ENOTFOUND test.local');
+	});
+
+	it('should wait for scripted delays', async () => {
+		vitest.useFakeTimers();
+		const { adapter, instance } = createInstance([{ status: 200, delay: 500 }]);
+		const start = Date.now();
+		await runWithFakeTimers(instance.get('/'), vitest);
+		assert.strictEqual(Date.now() - start, 500);
+		assertAttempts(adapter, 1);
+	});
+
+	it('should cancel scripted delays when the request is aborted', async () => {
+		vitest.useFakeTimers();
+		const { adapter, instance } = createInstance([
+			{ status: 200, delay: 60_000 },
+		]);
+		const controller = new AbortController();
+		const request = instance.get('/', { signal: controller.signal });
+		await vitest.advanceTimersByTimeAsync(1000);
+		assert.strictEqual(adapter.remaining, 0);
+		controller.abort();
+		const error = await request.catch((error_) => error_);
+		assert.ok(axios.isCancel(error));
+	});
+
+	it('should fail requests made after the script runs out', async () => {
+		const { adapter, instance } = createInstance([]);
+		await assert.rejects(instance.get('/'), {
+			message: 'Scripted adapter has no outcome left for request 1',
+		});
+		assertAttempts(adapter, 1);
+	});
+
+	it('should describe mismatched attempts and delays', async () => {
+		vitest.useFakeTimers();
+		const { adapter, instance } = createInstance([503, 200]);
+		await runWithFakeTimers(
+			instance.get('/', {
+				raxConfig: { retryDelay: 100, backoffType: 'static' },
+			}),
+			vitest,
+		);
+		assert.throws(() => assertAttempts(adapter, 1), {
+			message: 'Expected 1 attempt, but 2 were made',
+		});
+		assert.throws(() => assertDelays(adapter, [100, 100]), {
+			message: 'Expected retry delays [100, 100], but got [100]',
+		});
+	});
+
+	it('should give up on requests that never settle', async () => {
+		vitest.useFakeTimers();
+		await assert.rejects(
+			runWithFakeTimers(new Promise(() => {}), vitest, { maxTimers: 5 }),
+			{ message: 'Request did not settle after 5 timers' },
+		);
+	});
+});